@@ -1,25 +1,76 @@
 
 import React, { useState, useEffect, useMemo, useRef } from 'react';
-import { LayoutDashboard, Play, RotateCcw, Pause, ArrowDownToLine, PlusCircle, Lock, Unlock } from 'lucide-react';
+import { LayoutDashboard, Play, RotateCcw, Pause, ArrowDownToLine, PlusCircle, Lock, Unlock, FileSpreadsheet, FileJson } from 'lucide-react';
 import GaltonBoard from './components/GaltonBoard';
 import Controls from './components/Controls';
-import { SimulationConfig, BallColor, DEFAULT_COLORS, SimulationStatus, BallDefinition } from './types';
+import ColorBreakdown from './components/ColorBreakdown';
+import StatisticsPanel from './components/StatisticsPanel';
+import PresetPanel from './components/PresetPanel';
+import RecordingPanel from './components/RecordingPanel';
+import CapturePanel from './components/CapturePanel';
+import TimeControls from './components/TimeControls';
+import RunSummaryCard from './components/RunSummaryCard';
+import ExperimentPanel, { Experiment } from './components/ExperimentPanel';
+import ComparisonPanel, { BOARD_COLORS, boardName } from './components/ComparisonPanel';
+import BoardTabs from './components/BoardTabs';
+import TracePanel from './components/TracePanel';
+import HeatmapPanel from './components/HeatmapPanel';
+import LabelGeneratorPanel from './components/LabelGeneratorPanel';
+import { SimulationConfig, DEFAULT_COLORS, DEFAULT_CONFIG, SimulationStatus, BallDefinition, BallTrace, BucketTally, PegPosition, RunSummary } from './types';
+import { toCsv, toJson, downloadFile, timestampedName } from './utils/export';
+import { BoardPreset, decodePresetHash } from './utils/presets';
+import { BucketLabeling, resolveBucketValues } from './utils/bucketLabels';
+import { Recording } from './simulation/recording';
+import { buildBallQueue } from './simulation/dropOrder';
+import { CaptureOptions } from './utils/capture';
+
+// Time the balls get to pile up in the funnel before an experiment trial opens the gate
+const TRIAL_SETTLE_MS = 1000;
+
+// Boards keep a wide landscape shape, side by side or stacked when comparing
+const BOARD_ASPECT = 1.6;
+const BOARD_GAP = 16;
+
+type BoardDirection = 'row' | 'column';
+
+// Largest board size for `count` boards, and whether they fit better side by side or stacked
+const fitBoards = (width: number, height: number, count: number) => {
+  const fit = (w: number, h: number) => (w / h > BOARD_ASPECT
+    ? { width: h * BOARD_ASPECT, height: h } // Constrained by height
+    : { width: w, height: w / BOARD_ASPECT }); // Constrained by width
+  const gaps = BOARD_GAP * (count - 1);
+  const row = fit((width - gaps) / count, height);
+  const column = fit(width, (height - gaps) / count);
+  return row.width >= column.width
+    ? { ...row, direction: 'row' as BoardDirection }
+    : { ...column, direction: 'column' as BoardDirection };
+};
+
+// Keep labels already typed in, number the new buckets
+const resizeLabels = (labels: string[], count: number) => {
+  if (labels.length === count) return labels;
+  const resized = labels.slice(0, count);
+  for (let i = resized.length; i < count; i++) resized.push(`${i + 1}`);
+  return resized;
+};
+
+// An extra board in side-by-side comparison; it shares the ball pool with the main board
+interface ComparisonBoard {
+  config: SimulationConfig;
+  bucketLabels: string[];
+}
 
 const App: React.FC = () => {
   const [status, setStatus] = useState<SimulationStatus>('empty');
-  const [config, setConfig] = useState<SimulationConfig>({
-    rowCount: 8,
-    ballCount: 2000, 
-    bucketCount: 16, 
-    pegSize: 7,
-    ballSize: 2,
-    ballRestitution: 0.5,
-    ballFriction: 0.001,
-    dropSpeedMs: 50,
-  });
+
+  // A shared link (#preset=...) sets up the board on first load
+  const [hashPreset] = useState(() => decodePresetHash(window.location.hash));
+  const linkedPreset = hashPreset ? hashPreset.preset : null;
+
+  const [config, setConfig] = useState<SimulationConfig>(linkedPreset ? linkedPreset.config : DEFAULT_CONFIG);
 
   // User defines counts for each color
-  const [ballDefinitions, setBallDefinitions] = useState<BallDefinition[]>([
+  const [ballDefinitions, setBallDefinitions] = useState<BallDefinition[]>(linkedPreset ? linkedPreset.ballDefinitions : [
     { color: DEFAULT_COLORS[0], count: 1000 },
     { color: DEFAULT_COLORS[1], count: 1000 },
     { color: DEFAULT_COLORS[2], count: 0 },
@@ -27,16 +78,41 @@ const App: React.FC = () => {
     { color: DEFAULT_COLORS[4], count: 0 },
   ]);
 
-  // Derived: Flattened queue of balls to drop
-  const ballQueue = useMemo(() => {
-    const queue: BallColor[] = [];
-    ballDefinitions.forEach(def => {
-      for (let i = 0; i < def.count; i++) {
-        queue.push(def.color);
-      }
-    });
-    return queue;
-  }, [ballDefinitions]);
+  // Experiment trial k runs every board on its seed + k; the seeds the user set stay untouched
+  const [trialSeedOffset, setTrialSeedOffset] = useState(0);
+  const runConfig = useMemo(
+    () => (trialSeedOffset === 0 ? config : { ...config, seed: config.seed + trialSeedOffset }),
+    [config, trialSeedOffset]
+  );
+
+  // Derived: Flattened queue of balls to drop, in the chosen drop order
+  const ballQueue = useMemo(
+    () => buildBallQueue(ballDefinitions, runConfig.dropOrder, runConfig.seed),
+    [ballDefinitions, runConfig.dropOrder, runConfig.seed]
+  );
+
+  // Per-group physics overrides for the engine. Keyed on content so renaming or
+  // recoloring a group doesn't rebuild the board
+  const ballPhysicsJson = JSON.stringify(Object.fromEntries(
+    ballDefinitions.filter(def => def.physics).map(def => [def.color.id, def.physics])
+  ));
+  const ballPhysics = useMemo(() => JSON.parse(ballPhysicsJson), [ballPhysicsJson]);
+
+  // Extra boards for side-by-side comparison, and which board the sidebar controls edit
+  const [comparisonBoards, setComparisonBoards] = useState<ComparisonBoard[]>([]);
+  const [comparisonTallies, setComparisonTallies] = useState<BucketTally[]>([]);
+  const [selectedBoard, setSelectedBoard] = useState(0);
+  const boardCount = comparisonBoards.length + 1;
+
+  // Same pool for every board, but each board has its own drop order and seed
+  const comparisonRunConfigs = useMemo(
+    () => comparisonBoards.map(board => (trialSeedOffset === 0 ? board.config : { ...board.config, seed: board.config.seed + trialSeedOffset })),
+    [comparisonBoards, trialSeedOffset]
+  );
+  const comparisonQueues = useMemo(
+    () => comparisonRunConfigs.map(boardConfig => buildBallQueue(ballDefinitions, boardConfig.dropOrder, boardConfig.seed)),
+    [comparisonRunConfigs, ballDefinitions]
+  );
 
   // Sync config.ballCount with the total defined balls
   useEffect(() => {
@@ -44,47 +120,153 @@ const App: React.FC = () => {
       ...prev,
       ballCount: ballQueue.length
     }));
+    setComparisonBoards(prev => prev.map(board => ({ ...board, config: { ...board.config, ballCount: ballQueue.length } })));
   }, [ballQueue.length]);
 
   // Editable labels for the bucket columns
-  const [bucketLabels, setBucketLabels] = useState<string[]>([]);
+  const [bucketLabels, setBucketLabels] = useState<string[]>(linkedPreset ? linkedPreset.bucketLabels : []);
+
+  // Numeric value per bucket set by a label generator; null = read it from the label
+  const [bucketValues, setBucketValues] = useState<(number | null)[]>(linkedPreset ? linkedPreset.bucketValues : []);
 
   // Sync labels with bucketCount
   useEffect(() => {
-    setBucketLabels(prev => {
-      const count = config.bucketCount;
-      if (prev.length === count) return prev;
-      
-      const newLabels = [...prev];
-      if (newLabels.length < count) {
-        // Add new labels with default numbering
-        for (let i = newLabels.length; i < count; i++) {
-          newLabels.push(`${i + 1}`);
-        }
-      } else {
-        // Truncate if fewer buckets
-        newLabels.length = count;
-      }
-      return newLabels;
-    });
+    setBucketLabels(prev => resizeLabels(prev, config.bucketCount));
+    setBucketValues(prev => Array.from({ length: config.bucketCount }, (_, i) => prev[i] ?? null));
   }, [config.bucketCount]);
 
   const handleLabelChange = (index: number, value: string) => {
     const newLabels = [...bucketLabels];
     newLabels[index] = value;
     setBucketLabels(newLabels);
+    // A hand-edited label speaks for itself
+    setBucketValues(prev => prev.map((v, i) => (i === index ? null : v)));
   };
 
+  const handleApplyLabeling = (labeling: BucketLabeling) => {
+    setBucketLabels(labeling.labels);
+    setBucketValues(labeling.values);
+  };
+
+  // Every bucket's value, or null to fall back to bucket numbers
+  const numericValues = useMemo(() => resolveBucketValues(bucketLabels, bucketValues), [bucketLabels, bucketValues]);
+
+  // Latest landed counts reported by the board
+  const [tally, setTally] = useState<BucketTally>({ total: [], byColor: {} });
+  const [elapsedMs, setElapsedMs] = useState(0);
+
+  const handleTallyChange = (next: BucketTally, elapsed: number) => {
+    setTally(next);
+    setElapsedMs(elapsed);
+  };
+
+  // --- Side-by-side comparison ---
+
+  // The sidebar controls edit whichever board is selected
+  const setComparisonConfig = (index: number): React.Dispatch<React.SetStateAction<SimulationConfig>> => (action) => {
+    setComparisonBoards(prev => prev.map((board, i) => {
+      if (i !== index) return board;
+      const next = typeof action === 'function' ? action(board.config) : action;
+      return { config: next, bucketLabels: resizeLabels(board.bucketLabels, next.bucketCount) };
+    }));
+  };
+  const selectedConfig = selectedBoard === 0 ? config : comparisonBoards[selectedBoard - 1].config;
+  const setSelectedConfig = selectedBoard === 0 ? setConfig : setComparisonConfig(selectedBoard - 1);
+
+  const handleAddBoard = () => {
+    // Start from the selected board, so "same board but bouncier" is one change away
+    setComparisonBoards(prev => [...prev, { config: selectedConfig, bucketLabels: resizeLabels([], selectedConfig.bucketCount) }]);
+    setComparisonTallies(prev => [...prev, { total: [], byColor: {} }]);
+    setSelectedBoard(boardCount);
+  };
+
+  const handleRemoveBoard = (index: number) => {
+    setComparisonBoards(prev => prev.filter((_, i) => i !== index - 1));
+    setComparisonTallies(prev => prev.filter((_, i) => i !== index - 1));
+    setSelectedBoard(0);
+  };
+
+  const handleComparisonLabelChange = (boardIndex: number, index: number, value: string) => {
+    setComparisonBoards(prev => prev.map((board, i) => (i === boardIndex
+      ? { ...board, bucketLabels: board.bucketLabels.map((label, j) => (j === index ? value : label)) }
+      : board)));
+  };
+
+  const handleComparisonTallyChange = (boardIndex: number, next: BucketTally) => {
+    setComparisonTallies(prev => prev.map((t, i) => (i === boardIndex ? next : t)));
+  };
+
+  const handleExport = (format: 'csv' | 'json') => {
+    const input = { tally, bucketLabels, config: runConfig, ballDefinitions, elapsedMs, bucketValues: numericValues };
+    const name = timestampedName('galton');
+    if (format === 'csv') {
+      downloadFile(`${name}.csv`, toCsv(input), 'text/csv');
+    } else {
+      downloadFile(`${name}.json`, toJson(input), 'application/json');
+    }
+  };
+
+  // Recorder output and the recording currently replayed on the board (if any)
+  const [recordingIntervalMs, setRecordingIntervalMs] = useState(100);
+  const [recording, setRecording] = useState<Recording | null>(null);
+  const [replay, setReplay] = useState<Recording | null>(null);
+
+  const handleImportRecording = (imported: Recording) => {
+    setRecording(imported);
+    setReplay(imported);
+  };
+
+  // Peg layout editing happens directly on the board
+  const [isEditingPegs, setIsEditingPegs] = useState(false);
+
+  // Pegs are edited on the board selected in the sidebar
+  const handlePegLayoutChange = (pegs: PegPosition[]) => {
+    setSelectedConfig(prev => ({ ...prev, pegLayout: pegs }));
+  };
+
+  const handleSelectBoard = (index: number) => {
+    setIsEditingPegs(false);
+    setSelectedBoard(index);
+  };
+
+  // Path tracing of a single ball on the main board
+  const [trace, setTrace] = useState<BallTrace | null>(null);
+  const [traceTrigger, setTraceTrigger] = useState(0);
+  const [clearTraceTrigger, setClearTraceTrigger] = useState(0);
+
+  // Ball traffic heatmap, for all balls or one group
+  const [showHeatmap, setShowHeatmap] = useState(false);
+  const [heatmapColorId, setHeatmapColorId] = useState<string | null>(null);
+
+  // Snapshot / video capture of the board
+  const [captureOptions, setCaptureOptions] = useState<CaptureOptions>({ histogram: true, caption: true });
+  const [captureTrigger, setCaptureTrigger] = useState(0);
+  const [isRecordingVideo, setIsRecordingVideo] = useState(false);
+
   // Triggers for Board Actions
   const [fillTrigger, setFillTrigger] = useState(0);
   const [resetTrigger, setResetTrigger] = useState(0);
   const [isGateOpen, setIsGateOpen] = useState(false);
+  const [dropTrigger, setDropTrigger] = useState(0);
+  const [dropCount, setDropCount] = useState(0);
+  const [stepTrigger, setStepTrigger] = useState(0);
+  const [timeScale, setTimeScale] = useState(1);
+
+  // Completion: the last run's summary card, and whether finishing closes the gate
+  const [runSummary, setRunSummary] = useState<RunSummary | null>(null);
+  const [autoCloseGate, setAutoCloseGate] = useState(true);
+
+  // When comparing, a run is complete once every board is; the main board's summary is kept until then
+  const completedBoardsRef = useRef(new Set<number>());
+  const mainSummaryRef = useRef<RunSummary | null>(null);
 
   const handleFill = () => {
-    // Ensure physics is running so balls can stack
-    if (status !== 'running') {
+    // Ensure physics is running so balls can stack (a paused board stays paused)
+    if (status !== 'running' && status !== 'paused') {
         setStatus('running');
     }
+    setRunSummary(null);
+    completedBoardsRef.current.clear();
     setFillTrigger(prev => prev + 1);
   };
 
@@ -92,24 +274,106 @@ const App: React.FC = () => {
     setIsGateOpen(prev => !prev);
   };
 
+  // Metered release: let a few balls through without opening the gate
+  const handleDropBalls = (count: number) => {
+    if (status !== 'running' && status !== 'paused') {
+        setStatus('running');
+    }
+    setRunSummary(null);
+    completedBoardsRef.current.clear();
+    setDropCount(count);
+    setDropTrigger(prev => prev + 1);
+  };
+
+  // Pausing freezes the engine; controls that are locked while running unlock again
+  const handleTogglePause = () => {
+    if (status === 'running') setStatus('paused');
+    else if (status === 'paused') setStatus('running');
+  };
+
+  // Multi-trial experiment: the same run repeated with consecutive seeds
+  const [experiment, setExperiment] = useState<Experiment | null>(null);
+  const trialTimerRef = useRef<number | undefined>(undefined);
+
+  useEffect(() => () => window.clearTimeout(trialTimerRef.current), []);
+
+  // Reset -> Add balls -> Open, the gate opening once the balls have settled in the funnel
+  const startTrial = (index: number) => {
+    setIsGateOpen(false);
+    setResetTrigger(prev => prev + 1);
+    setTrialSeedOffset(index);
+    setStatus('running');
+    setRunSummary(null);
+    completedBoardsRef.current.clear();
+    setFillTrigger(prev => prev + 1);
+    window.clearTimeout(trialTimerRef.current);
+    trialTimerRef.current = window.setTimeout(() => setIsGateOpen(true), TRIAL_SETTLE_MS);
+  };
+
+  const handleStartExperiment = (trialCount: number) => {
+    setExperiment({ trialCount, baseSeed: config.seed, trials: [], running: true });
+    startTrial(0);
+  };
+
+  const stopExperiment = () => {
+    window.clearTimeout(trialTimerRef.current);
+    setExperiment(prev => (prev && prev.running ? { ...prev, running: false } : prev));
+  };
+
   const handleReset = () => {
+    stopExperiment();
+    // The last trial's seed stays on the board until it is cleared
+    setTrialSeedOffset(0);
     setIsGateOpen(false);
     setResetTrigger(prev => prev + 1);
     setStatus('empty');
+    setRunSummary(null);
+    completedBoardsRef.current.clear();
   };
 
-  // Triggered when simulation detects all balls have settled
-  const handleComplete = () => {
-    // Optional: Auto-pause logic could go here, but with manual controls we might want to keep it running
+  // Triggered once when every ball has come to rest in a bin (or got stuck)
+  const handleComplete = (boardIndex: number, boardSummary: RunSummary) => {
+    // Single-stepping a paused run can settle it too; the board reports that only once
+    if (status !== 'running' && status !== 'paused') return;
+    completedBoardsRef.current.add(boardIndex);
+    if (boardIndex === 0) mainSummaryRef.current = boardSummary;
+    if (completedBoardsRef.current.size < boardCount) return;
+    const summary = mainSummaryRef.current;
+
+    if (experiment?.running) {
+      const trials = [...experiment.trials, summary.tally.total];
+      const finished = trials.length >= experiment.trialCount;
+      setExperiment({ ...experiment, trials, running: !finished });
+      if (!finished) {
+        startTrial(trials.length);
+        return;
+      }
+      // The last trial stays on the board; the panel has the results
+      setStatus('completed');
+      setIsGateOpen(false);
+      return;
+    }
+
+    setStatus('completed');
+    setRunSummary(summary);
+    if (autoCloseGate) setIsGateOpen(false);
   };
 
   const handleResetAndPlay = () => {
      handleReset();
   };
 
+  const handleApplyPreset = (preset: BoardPreset) => {
+    handleReset();
+    setConfig(preset.config);
+    setBallDefinitions(preset.ballDefinitions);
+    setBucketLabels(preset.bucketLabels);
+    setBucketValues(preset.bucketValues);
+  };
+
   // Aspect Ratio Logic
   const mainContainerRef = useRef<HTMLDivElement>(null);
-  const [boardSize, setBoardSize] = useState({ width: 0, height: 0 });
+  const [boardSize, setBoardSize] = useState({ width: 0, height: 0, direction: 'row' as BoardDirection });
 
   useEffect(() => {
     if (!mainContainerRef.current) return;
@@ -117,22 +381,7 @@ const App: React.FC = () => {
     const calculateSize = () => {
         if (!mainContainerRef.current) return;
         const { clientWidth: width, clientHeight: height } = mainContainerRef.current;
-        
-        // Target Aspect Ratio 1.6 (Wide Landscape)
-        const targetRatio = 1.6;
-        const containerRatio = width / height;
-
-        let w, h;
-        if (containerRatio > targetRatio) {
-            // Container is wider than target -> constrained by height
-            h = height;
-            w = height * targetRatio;
-        } else {
-            // Container is taller than target -> constrained by width
-            w = width;
-            h = width / targetRatio;
-        }
-        setBoardSize({ width: w, height: h });
+        setBoardSize(fitBoards(width, height, boardCount));
     };
 
     // Initial calculation
@@ -142,9 +391,23 @@ const App: React.FC = () => {
     observer.observe(mainContainerRef.current);
 
     return () => observer.disconnect();
-  }, []);
+  }, [boardCount]);
 
 
+  const boardStyle: React.CSSProperties = {
+    width: boardSize.width,
+    height: boardSize.height,
+    transition: 'width 0.1s ease-out, height 0.1s ease-out'
+  };
+
+  // Name tag in the board's corner, only needed once there is something to tell apart
+  const renderBoardName = (index: number) => boardCount > 1 && (
+    <div className="absolute top-2 right-2 z-10 flex items-center gap-1.5 px-2 py-0.5 bg-white/90 rounded text-xs font-bold text-slate-700 pointer-events-none">
+      <span className="w-2 h-2 rounded-full" style={{ backgroundColor: BOARD_COLORS[index] }} />
+      {boardName(index)}
+    </div>
+  );
+
   return (
     <div className="flex flex-col h-screen overflow-hidden bg-slate-100">
       {/* Header */}
@@ -157,7 +420,33 @@ const App: React.FC = () => {
         </div>
         
         <div className="flex items-center gap-3">
+
+          {/* Export Results */}
+          <div className="flex items-center gap-1 pr-3 mr-1 border-r border-slate-200">
+            <button
+              onClick={() => handleExport('csv')}
+              className="p-2 text-slate-600 hover:bg-slate-100 rounded-md transition-colors"
+              title="Export bucket counts as CSV"
+            >
+              <FileSpreadsheet className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => handleExport('json')}
+              className="p-2 text-slate-600 hover:bg-slate-100 rounded-md transition-colors"
+              title="Export bucket counts and run metadata as JSON"
+            >
+              <FileJson className="w-5 h-5" />
+            </button>
+          </div>
           
+          <TimeControls
+            status={status}
+            onTogglePause={handleTogglePause}
+            onStep={() => setStepTrigger(prev => prev + 1)}
+            timeScale={timeScale}
+            onTimeScaleChange={setTimeScale}
+          />
+
           {/* 1. Add balls Button (Incremental) */}
           <button
             onClick={handleFill}
@@ -204,43 +493,201 @@ const App: React.FC = () => {
         {/* Canvas Area */}
         <div 
           ref={mainContainerRef}
-          className="flex-1 relative bg-slate-50 p-4 flex items-center justify-center overflow-hidden"
+          className={`flex-1 relative bg-slate-50 p-4 flex items-center justify-center overflow-hidden ${boardSize.direction === 'row' ? 'flex-row' : 'flex-col'}`}
+          style={{ gap: BOARD_GAP }}
           onDoubleClick={handleReset}
           title="Double click to Reset"
         >
           <div 
             className="bg-white rounded-xl shadow-inner border border-slate-200 overflow-hidden relative flex-none"
-            style={{ 
-                width: boardSize.width, 
-                height: boardSize.height,
-                transition: 'width 0.1s ease-out, height 0.1s ease-out'
-            }}
+            style={boardStyle}
           >
+             {renderBoardName(0)}
              <GaltonBoard 
                 status={status}
-                config={config}
+                config={runConfig}
                 ballQueue={ballQueue}
-                onComplete={handleComplete}
+                ballPhysics={ballPhysics}
+                onComplete={(summary) => handleComplete(0, summary)}
                 bucketLabels={bucketLabels}
                 onLabelChange={handleLabelChange}
+                onTallyChange={handleTallyChange}
                 fillTrigger={fillTrigger}
                 resetTrigger={resetTrigger}
                 isGateOpen={isGateOpen}
+                dropTrigger={dropTrigger}
+                dropCount={dropCount}
+                stepTrigger={stepTrigger}
+                timeScale={timeScale}
+                recordingIntervalMs={recordingIntervalMs}
+                onRecordingUpdate={setRecording}
+                replay={replay}
+                onExitReplay={() => setReplay(null)}
+                captureTrigger={captureTrigger}
+                isRecordingVideo={isRecordingVideo}
+                captureOptions={captureOptions}
+                isEditingPegs={isEditingPegs && selectedBoard === 0 && status !== 'running'}
+                onPegLayoutChange={handlePegLayoutChange}
+                traceTrigger={traceTrigger}
+                clearTraceTrigger={clearTraceTrigger}
+                onTraceChange={setTrace}
+                showHeatmap={showHeatmap}
+                heatmapColorId={heatmapColorId}
              />
+             {runSummary && !replay && (
+                <RunSummaryCard
+                  summary={runSummary}
+                  config={runConfig}
+                  bucketLabels={bucketLabels}
+                  bucketValues={numericValues}
+                  ballDefinitions={ballDefinitions}
+                  onClose={() => setRunSummary(null)}
+                />
+             )}
           </div>
+
+          {/* Comparison boards share the ball pool and every run control with board A */}
+          {comparisonBoards.map((board, i) => (
+            <div
+              key={i}
+              className="bg-white rounded-xl shadow-inner border border-slate-200 overflow-hidden relative flex-none"
+              style={boardStyle}
+            >
+               {renderBoardName(i + 1)}
+               <GaltonBoard
+                  status={status}
+                  config={comparisonRunConfigs[i]}
+                  ballQueue={comparisonQueues[i]}
+                  ballPhysics={ballPhysics}
+                  onComplete={(summary) => handleComplete(i + 1, summary)}
+                  bucketLabels={board.bucketLabels}
+                  onLabelChange={(index, value) => handleComparisonLabelChange(i, index, value)}
+                  onTallyChange={(next) => handleComparisonTallyChange(i, next)}
+                  fillTrigger={fillTrigger}
+                  resetTrigger={resetTrigger}
+                  isGateOpen={isGateOpen}
+                  dropTrigger={dropTrigger}
+                  dropCount={dropCount}
+                  stepTrigger={stepTrigger}
+                  timeScale={timeScale}
+                  isEditingPegs={isEditingPegs && selectedBoard === i + 1 && status !== 'running'}
+                  onPegLayoutChange={handlePegLayoutChange}
+                  showHeatmap={showHeatmap}
+                  heatmapColorId={heatmapColorId}
+               />
+            </div>
+          ))}
         </div>
 
         {/* Sidebar Controls */}
         <aside className="w-96 flex-none bg-white border-l border-slate-200 overflow-y-auto z-20 shadow-lg">
+          <BoardTabs
+            count={boardCount}
+            selected={selectedBoard}
+            onSelect={handleSelectBoard}
+            onAdd={handleAddBoard}
+            onRemove={handleRemoveBoard}
+            disabled={status === 'running'}
+          />
           <Controls 
-            config={config} 
-            setConfig={setConfig} 
+            config={selectedConfig} 
+            setConfig={setSelectedConfig} 
             ballDefinitions={ballDefinitions}
             setBallDefinitions={setBallDefinitions}
             // Disable controls if balls are on the board (running status is loosely used for physics active)
             // A better check might be if fillTrigger > 0, but status === 'running' is a good proxy for "active session"
             disabled={status === 'running'}
+            onDropBalls={handleDropBalls}
+            autoCloseGate={autoCloseGate}
+            onAutoCloseGateChange={setAutoCloseGate}
+            isEditingPegs={isEditingPegs}
+            onToggleEditPegs={() => setIsEditingPegs(prev => !prev)}
           />
+          <div className="px-6 pb-20 space-y-8">
+            <hr className="border-slate-100" />
+            <PresetPanel
+              config={config}
+              ballDefinitions={ballDefinitions}
+              bucketLabels={bucketLabels}
+              bucketValues={bucketValues}
+              onApply={handleApplyPreset}
+              disabled={status === 'running'}
+              initialResult={hashPreset}
+            />
+            <hr className="border-slate-100" />
+            <RecordingPanel
+              intervalMs={recordingIntervalMs}
+              onIntervalChange={setRecordingIntervalMs}
+              recording={recording}
+              replaying={replay !== null}
+              onReplay={setReplay}
+              onImport={handleImportRecording}
+            />
+            <hr className="border-slate-100" />
+            <CapturePanel
+              options={captureOptions}
+              onOptionsChange={setCaptureOptions}
+              onSnapshot={() => setCaptureTrigger(prev => prev + 1)}
+              isRecordingVideo={isRecordingVideo}
+              onToggleVideo={() => setIsRecordingVideo(prev => !prev)}
+            />
+            <hr className="border-slate-100" />
+            <ExperimentPanel
+              experiment={experiment}
+              config={config}
+              bucketLabels={bucketLabels}
+              onStart={handleStartExperiment}
+              onStop={stopExperiment}
+              onClear={() => setExperiment(null)}
+            />
+            {boardCount > 1 && (
+              <>
+                <hr className="border-slate-100" />
+                <ComparisonPanel
+                  boards={[
+                    { config, counts: tally.total },
+                    ...comparisonBoards.map((board, i) => ({ config: board.config, counts: comparisonTallies[i]?.total ?? [] }))
+                  ]}
+                />
+              </>
+            )}
+            <hr className="border-slate-100" />
+            <TracePanel
+              trace={trace}
+              config={config}
+              bucketLabels={bucketLabels}
+              ballDefinitions={ballDefinitions}
+              onTagRandom={() => setTraceTrigger(prev => prev + 1)}
+              onClear={() => setClearTraceTrigger(prev => prev + 1)}
+            />
+            <hr className="border-slate-100" />
+            <HeatmapPanel
+              enabled={showHeatmap}
+              onEnabledChange={setShowHeatmap}
+              colorId={heatmapColorId}
+              onColorIdChange={setHeatmapColorId}
+              ballDefinitions={ballDefinitions}
+            />
+            <hr className="border-slate-100" />
+            <LabelGeneratorPanel
+              config={config}
+              values={numericValues}
+              onApply={handleApplyLabeling}
+            />
+            <hr className="border-slate-100" />
+            <StatisticsPanel
+              counts={tally.total}
+              config={runConfig}
+              values={numericValues}
+              onCalibrate={(p) => setConfig(prev => ({ ...prev, rightProbability: Math.min(0.99, Math.max(0.01, p)) }))}
+            />
+            <hr className="border-slate-100" />
+            <ColorBreakdown
+              tally={tally}
+              ballDefinitions={ballDefinitions}
+              bucketLabels={bucketLabels}
+            />
+          </div>
         </aside>
       </main>
     </div>
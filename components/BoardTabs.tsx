@@ -0,0 +1,54 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { MAX_BOARDS, BOARD_COLORS, boardName } from './ComparisonPanel';
+
+interface BoardTabsProps {
+  count: number;
+  selected: number; // Board whose settings the controls below edit
+  onSelect: (index: number) => void;
+  onAdd: () => void;
+  onRemove: (index: number) => void;
+  disabled: boolean;
+}
+
+/** Picks which of the side-by-side boards the sidebar controls edit. */
+const BoardTabs: React.FC<BoardTabsProps> = ({ count, selected, onSelect, onAdd, onRemove, disabled }) => {
+  return (
+    <div className="px-6 pt-6 flex items-center gap-1">
+      <span className="text-sm uppercase tracking-wide text-slate-500 font-bold mr-2">Board</span>
+      {Array.from({ length: count }, (_, i) => (
+        <button
+          key={i}
+          onClick={() => onSelect(i)}
+          className={`flex items-center gap-1.5 px-2.5 py-1 text-xs font-semibold rounded-md border transition-colors ${
+            selected === i ? 'border-slate-400 bg-slate-100 text-slate-800' : 'border-slate-200 text-slate-500 hover:bg-slate-50'
+          }`}
+          title={i === 0 ? 'Main board' : `Comparison board ${boardName(i)}`}
+        >
+          <span className="w-2 h-2 rounded-full" style={{ backgroundColor: BOARD_COLORS[i] }} />
+          {boardName(i)}
+        </button>
+      ))}
+      <button
+        onClick={onAdd}
+        disabled={disabled || count >= MAX_BOARDS}
+        className="p-1.5 text-slate-500 hover:text-indigo-600 hover:bg-slate-50 rounded-md disabled:opacity-40 disabled:hover:bg-transparent"
+        title="Add a board to compare, starting from the selected board's settings"
+      >
+        <Plus className="w-4 h-4" />
+      </button>
+      {selected > 0 && (
+        <button
+          onClick={() => onRemove(selected)}
+          disabled={disabled}
+          className="ml-auto p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-md disabled:opacity-40"
+          title={`Remove board ${boardName(selected)}`}
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default BoardTabs;
@@ -0,0 +1,109 @@
+import React from 'react';
+
+export interface HistogramSeries {
+  color: string;
+  counts: number[];
+}
+
+interface BucketHistogramProps {
+  counts: number[];
+  series?: HistogramSeries[]; // Optional per-color breakdown, stacked inside each bar
+  expected: number[]; // Probabilities per bucket, scaled to the landed total here
+  binAreaStartX: number;
+  spacingX: number;
+  top: number;
+  height: number;
+}
+
+const BucketHistogram: React.FC<BucketHistogramProps> = ({
+  counts,
+  series = [],
+  expected,
+  binAreaStartX,
+  spacingX,
+  top,
+  height
+}) => {
+  if (height <= 0 || counts.length === 0) return null;
+
+  const total = counts.reduce((acc, c) => acc + c, 0);
+  const expectedCounts = expected.map(p => p * total);
+
+  // Shared vertical scale so bars and curve are directly comparable
+  const maxValue = Math.max(1, ...counts, ...expectedCounts);
+  const labelSpace = 12;
+  const plotHeight = Math.max(0, height - labelSpace);
+  const scale = plotHeight / maxValue;
+
+  const curvePoints = expectedCounts
+    .map((value, i) => {
+      const x = binAreaStartX + (i * spacingX) + (spacingX / 2);
+      const y = height - (value * scale);
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+
+  return (
+    <svg
+      className="absolute left-0 w-full pointer-events-none z-[5]"
+      style={{ top, height }}
+    >
+      {counts.map((count, i) => {
+        const barHeight = count * scale;
+        const x = binAreaStartX + (i * spacingX) + 2;
+        const barWidth = Math.max(1, spacingX - 4);
+        let stackTop = height;
+        return (
+          <g key={i}>
+            {series.length > 1 && series.map((s, j) => {
+              const segmentHeight = (s.counts[i] || 0) * scale;
+              stackTop -= segmentHeight;
+              return (
+                <rect
+                  key={j}
+                  x={x}
+                  y={stackTop}
+                  width={barWidth}
+                  height={segmentHeight}
+                  fill={s.color}
+                  fillOpacity={0.35}
+                />
+              );
+            })}
+            <rect
+              x={x}
+              y={height - barHeight}
+              width={barWidth}
+              height={barHeight}
+              fill={series.length > 1 ? 'none' : 'rgba(79, 70, 229, 0.15)'}
+              stroke="rgba(79, 70, 229, 0.6)"
+              strokeWidth={1}
+            />
+            {count > 0 && (
+              <text
+                x={x + barWidth / 2}
+                y={height - barHeight - 2}
+                textAnchor="middle"
+                className="fill-slate-700 font-mono"
+                style={{ fontSize: 9 }}
+              >
+                {count}
+              </text>
+            )}
+          </g>
+        );
+      })}
+      {total > 0 && (
+        <polyline
+          points={curvePoints}
+          fill="none"
+          stroke="#dc2626"
+          strokeWidth={2}
+          strokeLinejoin="round"
+        />
+      )}
+    </svg>
+  );
+};
+
+export default BucketHistogram;
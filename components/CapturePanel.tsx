@@ -0,0 +1,77 @@
+import React from 'react';
+import { Camera, Video, Square } from 'lucide-react';
+import { CaptureOptions, isVideoCaptureSupported } from '../utils/capture';
+
+interface CapturePanelProps {
+  options: CaptureOptions;
+  onOptionsChange: (options: CaptureOptions) => void;
+  onSnapshot: () => void;
+  isRecordingVideo: boolean;
+  onToggleVideo: () => void;
+}
+
+const CapturePanel: React.FC<CapturePanelProps> = ({ options, onOptionsChange, onSnapshot, isRecordingVideo, onToggleVideo }) => {
+  const videoSupported = isVideoCaptureSupported();
+  const buttonClass = 'flex-1 flex items-center justify-center gap-1.5 px-2 py-1.5 text-xs font-medium rounded-md border transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <section>
+      <h2 className="text-sm uppercase tracking-wide text-slate-500 font-bold mb-4">Capture</h2>
+
+      <div className="space-y-3">
+        <div className="flex gap-4">
+          <label className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={options.histogram}
+              onChange={(e) => onOptionsChange({ ...options, histogram: e.target.checked })}
+              className="accent-indigo-600"
+            />
+            Histogram
+          </label>
+          <label className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={options.caption}
+              onChange={(e) => onOptionsChange({ ...options, caption: e.target.checked })}
+              className="accent-indigo-600"
+            />
+            Stats caption
+          </label>
+        </div>
+
+        <div className="flex gap-2">
+          <button
+            onClick={onSnapshot}
+            className={`${buttonClass} border-slate-300 text-slate-700 hover:bg-slate-50`}
+            title="Download the board as a high-resolution PNG"
+          >
+            <Camera className="w-3.5 h-3.5" /> Snapshot
+          </button>
+          <button
+            onClick={onToggleVideo}
+            disabled={!videoSupported}
+            className={`${buttonClass} ${
+              isRecordingVideo
+                ? 'border-red-300 bg-red-50 text-red-700 hover:bg-red-100'
+                : 'border-slate-300 text-slate-700 hover:bg-slate-50'
+            }`}
+            title={videoSupported ? 'Record the board as a WebM clip' : 'This browser cannot record WebM video'}
+          >
+            {isRecordingVideo ? (
+              <>
+                <Square className="w-3.5 h-3.5 fill-current" /> Stop & save
+              </>
+            ) : (
+              <>
+                <Video className="w-3.5 h-3.5" /> Record video
+              </>
+            )}
+          </button>
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default CapturePanel;
@@ -0,0 +1,89 @@
+import React from 'react';
+import { BallDefinition, BucketTally } from '../types';
+import { chiSquareIndependence, formatPValue } from '../utils/statistics';
+
+interface ColorBreakdownProps {
+  tally: BucketTally;
+  ballDefinitions: BallDefinition[];
+  bucketLabels: string[];
+}
+
+const ColorBreakdown: React.FC<ColorBreakdownProps> = ({ tally, ballDefinitions, bucketLabels }) => {
+  // Only colors that actually landed take part in the table and the test
+  const colors = ballDefinitions
+    .map(def => def.color)
+    .filter(color => tally.byColor[color.id]);
+
+  const result = chiSquareIndependence(colors.map(color => tally.byColor[color.id]));
+
+  const usedBuckets = tally.total
+    .map((count, i) => ({ count, i }))
+    .filter(b => b.count > 0);
+
+  return (
+    <section>
+      <h2 className="text-sm uppercase tracking-wide text-slate-500 font-bold mb-4">Color Breakdown</h2>
+
+      {usedBuckets.length === 0 ? (
+        <p className="text-sm text-slate-400">No balls have landed yet.</p>
+      ) : (
+        <div className="space-y-4">
+          <div className="bg-slate-50 rounded-lg border border-slate-200 overflow-x-auto">
+            <table className="w-full text-xs font-mono">
+              <thead>
+                <tr className="text-slate-500 border-b border-slate-200">
+                  <th className="text-left px-2 py-1 font-semibold">Bucket</th>
+                  {colors.map(color => (
+                    <th key={color.id} className="text-right px-2 py-1" title={color.name}>
+                      <span
+                        className="inline-block w-3 h-3 rounded-full border border-black/10 align-middle"
+                        style={{ backgroundColor: color.color }}
+                      />
+                    </th>
+                  ))}
+                  <th className="text-right px-2 py-1 font-semibold">Total</th>
+                </tr>
+              </thead>
+              <tbody>
+                {usedBuckets.map(({ count, i }) => (
+                  <tr key={i} className="text-slate-700 border-b border-slate-100 last:border-0">
+                    <td className="text-left px-2 py-1">{bucketLabels[i] ?? i + 1}</td>
+                    {colors.map(color => (
+                      <td key={color.id} className="text-right px-2 py-1">{tally.byColor[color.id][i]}</td>
+                    ))}
+                    <td className="text-right px-2 py-1 font-bold">{count}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="text-sm text-slate-700 space-y-1">
+            <div className="font-medium">Color vs bucket independence (χ²)</div>
+            {result ? (
+              <>
+                <div className="font-mono text-xs text-slate-600">
+                  χ² = {result.statistic.toFixed(2)}, df = {result.degreesOfFreedom}, p = {formatPValue(result.pValue)}
+                </div>
+                <div className={`text-xs ${result.pValue < 0.05 ? 'text-amber-700' : 'text-emerald-700'}`}>
+                  {result.pValue < 0.05
+                    ? 'Landing bucket depends on color (drop order may bias the outcome).'
+                    : 'No evidence that color affects the landing bucket.'}
+                </div>
+                {result.lowExpectedShare > 0.2 && (
+                  <div className="text-xs text-slate-400">
+                    {Math.round(result.lowExpectedShare * 100)}% of cells expect fewer than 5 balls; treat p as approximate.
+                  </div>
+                )}
+              </>
+            ) : (
+              <div className="text-xs text-slate-400">Needs at least two colors landing in two buckets.</div>
+            )}
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default ColorBreakdown;
@@ -0,0 +1,100 @@
+import React from 'react';
+import { SimulationConfig } from '../types';
+import { describeDistribution } from '../utils/statistics';
+
+// Board A is the main configuration; B, C, ... are extra boards run next to it
+export const MAX_BOARDS = 4;
+export const BOARD_COLORS = ['#4f46e5', '#dc2626', '#059669', '#d97706'];
+export const boardName = (index: number) => String.fromCharCode(65 + index);
+
+export interface ComparedBoard {
+  config: SimulationConfig;
+  counts: number[];
+}
+
+interface ComparisonPanelProps {
+  boards: ComparedBoard[];
+}
+
+const CHART_WIDTH = 320;
+const CHART_HEIGHT = 140;
+
+// Share of balls per bucket, scaled by the bucket count so boards with different
+// bucket counts (and ball totals) enclose the same area
+const toDensity = (counts: number[]) => {
+  const total = counts.reduce((acc, c) => acc + c, 0);
+  return counts.map(c => (total > 0 ? (c / total) * counts.length : 0));
+};
+
+/** Overlays the normalized histograms of the boards being compared. */
+const ComparisonPanel: React.FC<ComparisonPanelProps> = ({ boards }) => {
+  const densities = boards.map(board => toDensity(board.counts));
+  const max = Math.max(1, ...densities.flat());
+  const toY = (value: number) => CHART_HEIGHT - (value / max) * (CHART_HEIGHT - 4);
+
+  // Step outline across the full width, whatever the bucket count
+  const outline = (density: number[]) => {
+    if (density.length === 0) return '';
+    const width = CHART_WIDTH / density.length;
+    const steps = density.map((value, i) => `L ${i * width} ${toY(value)} L ${(i + 1) * width} ${toY(value)}`);
+    return `M 0 ${CHART_HEIGHT} ${steps.join(' ')} L ${CHART_WIDTH} ${CHART_HEIGHT} Z`;
+  };
+
+  return (
+    <section>
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-sm uppercase tracking-wide text-slate-500 font-bold">Comparison</h2>
+        <div className="text-xs font-semibold bg-indigo-50 text-indigo-700 px-2 py-1 rounded">
+          {boards.length} boards
+        </div>
+      </div>
+
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full bg-slate-50 rounded border border-slate-200">
+        {densities.map((density, b) => (
+          <path
+            key={b}
+            d={outline(density)}
+            fill={BOARD_COLORS[b]} fillOpacity={0.12}
+            stroke={BOARD_COLORS[b]} strokeWidth={1.5}
+          />
+        ))}
+      </svg>
+      <p className="text-xs text-slate-400 mt-1 mb-3">
+        Share of balls per bucket across the board width, so different bucket counts line up.
+      </p>
+
+      <div className="bg-slate-50 rounded-lg border border-slate-200 overflow-hidden">
+        <table className="w-full text-xs font-mono">
+          <thead>
+            <tr className="text-slate-500 border-b border-slate-200">
+              <th className="text-left px-2 py-1 font-semibold">Board</th>
+              <th className="text-right px-2 py-1 font-semibold">Rows</th>
+              <th className="text-right px-2 py-1 font-semibold">Bounce</th>
+              <th className="text-right px-2 py-1 font-semibold">n</th>
+              <th className="text-right px-2 py-1 font-semibold" title="Standard deviation in buckets">SD</th>
+            </tr>
+          </thead>
+          <tbody>
+            {boards.map((board, b) => {
+              const observed = describeDistribution(board.counts);
+              return (
+                <tr key={b} className="text-slate-700 border-b border-slate-100 last:border-0">
+                  <td className="px-2 py-1">
+                    <span className="inline-block w-2.5 h-2.5 rounded-full mr-1.5 align-middle" style={{ backgroundColor: BOARD_COLORS[b] }} />
+                    {boardName(b)}
+                  </td>
+                  <td className="text-right px-2 py-1">{board.config.rowCount}</td>
+                  <td className="text-right px-2 py-1">{board.config.ballRestitution}</td>
+                  <td className="text-right px-2 py-1">{observed ? observed.count : 0}</td>
+                  <td className="text-right px-2 py-1">{observed ? observed.standardDeviation.toFixed(2) : '–'}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+};
+
+export default ComparisonPanel;
@@ -1,7 +1,8 @@
 
-import React from 'react';
-import { SimulationConfig, BallDefinition, DEFAULT_COLORS } from '../types';
-import { Users, Info } from 'lucide-react';
+import React, { useState } from 'react';
+import { SimulationConfig, BallDefinition, BallColor, BallPhysics, BALL_PHYSICS_LIMITS, DEFAULT_BALL_DENSITY, DropOrder, ReleaseMode, SimulationMode, PegArrangement, PegShape, MAX_PHYSICS_COUNT, MAX_FAST_COUNT, MAX_BALL_GROUPS, PALETTE_SUGGESTIONS } from '../types';
+import { Users, Info, Dices, PenTool, Grid3x3, Plus, Trash2, SlidersHorizontal, ArrowDownToLine } from 'lucide-react';
+import { randomSeed } from '../utils/random';
 
 interface ControlsProps {
   config: SimulationConfig;
@@ -9,9 +10,27 @@ interface ControlsProps {
   ballDefinitions: BallDefinition[];
   setBallDefinitions: React.Dispatch<React.SetStateAction<BallDefinition[]>>;
   disabled: boolean;
+  onDropBalls: (count: number) => void; // Metered release only
+  autoCloseGate: boolean;
+  onAutoCloseGateChange: (autoClose: boolean) => void;
+  isEditingPegs: boolean;
+  onToggleEditPegs: () => void;
 }
 
-const Controls: React.FC<ControlsProps> = ({ config, setConfig, ballDefinitions, setBallDefinitions, disabled }) => {
+const PHYSICS_FIELDS: { key: keyof BallPhysics; label: string }[] = [
+  { key: 'size', label: 'Size' },
+  { key: 'density', label: 'Density' },
+  { key: 'restitution', label: 'Bounce' },
+  { key: 'friction', label: 'Friction' },
+];
+
+const Controls: React.FC<ControlsProps> = ({ config, setConfig, ballDefinitions, setBallDefinitions, disabled, onDropBalls, autoCloseGate, onAutoCloseGateChange, isEditingPegs, onToggleEditPegs }) => {
+  // Group whose physics overrides are expanded
+  const [physicsGroupId, setPhysicsGroupId] = useState<string | null>(null);
+  // Overrides as typed in the open group, so "0.00..." isn't cut short and the board
+  // isn't rebuilt per keystroke; a field's value is committed on blur or Enter
+  const [physicsDrafts, setPhysicsDrafts] = useState<Partial<Record<keyof BallPhysics, string>>>({});
+  const [dropBatch, setDropBatch] = useState(10);
 
   const handleChange = (key: keyof SimulationConfig, value: number) => {
     setConfig(prev => ({ ...prev, [key]: value }));
@@ -19,29 +38,106 @@ const Controls: React.FC<ControlsProps> = ({ config, setConfig, ballDefinitions,
 
   const handleCountChange = (colorId: string, newCount: number) => {
     if (newCount < 0) return;
-    setBallDefinitions(prev => {
-      const exists = prev.find(d => d.color.id === colorId);
-      if (exists) {
-        return prev.map(d => d.color.id === colorId ? { ...d, count: newCount } : d);
+    setBallDefinitions(prev => prev.map(d => d.color.id === colorId ? { ...d, count: newCount } : d));
+  };
+
+  const handleGroupChange = (colorId: string, changes: Partial<BallColor>) => {
+    setBallDefinitions(prev => prev.map(d => d.color.id === colorId ? { ...d, color: { ...d.color, ...changes } } : d));
+  };
+
+  // A blank field clears the override so the group follows the board setting again
+  const commitPhysics = (colorId: string, key: keyof BallPhysics) => {
+    const draft = physicsDrafts[key];
+    if (draft === undefined) return;
+    setPhysicsDrafts(prev => {
+      const next = { ...prev };
+      delete next[key];
+      return next;
+    });
+    const { min, max } = BALL_PHYSICS_LIMITS[key];
+    setBallDefinitions(prev => prev.map(d => {
+      if (d.color.id !== colorId) return d;
+      const physics = { ...d.physics };
+      const parsed = parseFloat(draft);
+      if (!Number.isFinite(parsed)) {
+        delete physics[key];
       } else {
-        // Should not happen with current logic, but safe fallback
-        const color = DEFAULT_COLORS.find(c => c.id === colorId);
-        if (color) return [...prev, { color, count: newCount }];
-        return prev;
+        physics[key] = Math.min(max, Math.max(min, parsed));
       }
+      return { ...d, physics: Object.keys(physics).length > 0 ? physics : undefined };
+    }));
+  };
+
+  // Board-wide value each override falls back to
+  const physicsDefaults: Required<BallPhysics> = {
+    size: config.ballSize,
+    density: DEFAULT_BALL_DENSITY,
+    restitution: config.ballRestitution,
+    friction: config.ballFriction,
+  };
+
+  const handleAddGroup = () => {
+    setBallDefinitions(prev => {
+      if (prev.length >= MAX_BALL_GROUPS) return prev;
+      // Next free numeric id, and the first suggested color nobody uses yet
+      const id = String(prev.reduce((max, d) => Math.max(max, parseInt(d.color.id) || 0), 0) + 1);
+      const used = new Set(prev.map(d => d.color.color.toLowerCase()));
+      const color = PALETTE_SUGGESTIONS.find(c => !used.has(c)) ?? PALETTE_SUGGESTIONS[prev.length % PALETTE_SUGGESTIONS.length];
+      return [...prev, { color: { id, color, name: `Group ${prev.length + 1}` }, count: 0 }];
     });
   };
 
+  const handleRemoveGroup = (colorId: string) => {
+    setBallDefinitions(prev => prev.length > 1 ? prev.filter(d => d.color.id !== colorId) : prev);
+  };
+
+  const handleModeChange = (mode: SimulationMode) => {
+    setConfig(prev => ({ ...prev, simulationMode: mode }));
+    if (mode === 'physics') {
+      // Large fast-mode pools would stall the physics engine
+      setBallDefinitions(prev => prev.map(d => d.count > MAX_PHYSICS_COUNT ? { ...d, count: MAX_PHYSICS_COUNT } : d));
+    }
+  };
+
+  const handleArrangementChange = (arrangement: PegArrangement) => {
+    setConfig(prev => ({
+      ...prev,
+      pegArrangement: arrangement,
+      // A quincunx has exactly one bin per possible number of right bounces
+      bucketCount: arrangement === 'triangle' ? prev.rowCount + 1 : prev.rowCount * 2
+    }));
+  };
+
+  const isTriangle = config.pegArrangement === 'triangle';
+  const maxCount = config.simulationMode === 'fast' ? MAX_FAST_COUNT : MAX_PHYSICS_COUNT;
   const totalBalls = ballDefinitions.reduce((acc, curr) => acc + curr.count, 0);
 
   return (
-    <div className="p-6 space-y-8 pb-20">
+    <div className="p-6 space-y-8 pb-8">
       
       {/* 1. Board Settings */}
       <section>
         <h2 className="text-sm uppercase tracking-wide text-slate-500 font-bold mb-4">Board Settings</h2>
         
         <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            {(['grid', 'triangle'] as PegArrangement[]).map(arrangement => (
+              <button
+                key={arrangement}
+                onClick={() => handleArrangementChange(arrangement)}
+                disabled={disabled}
+                className={`px-3 py-2 text-sm font-medium rounded-md border transition-colors disabled:opacity-50 ${
+                  config.pegArrangement === arrangement
+                    ? 'bg-indigo-600 border-indigo-600 text-white'
+                    : 'bg-white border-slate-300 text-slate-700 hover:bg-slate-50'
+                }`}
+                title={arrangement === 'grid' ? 'Staggered grid across the full width' : 'Textbook quincunx: row k has k + 1 pegs'}
+              >
+                {arrangement === 'grid' ? 'Full Grid' : 'Triangle'}
+              </button>
+            ))}
+          </div>
+
           <div>
             <div className="flex justify-between mb-1">
               <label className="text-sm font-medium text-slate-700">Rows (Pegs)</label>
@@ -55,7 +151,8 @@ const Controls: React.FC<ControlsProps> = ({ config, setConfig, ballDefinitions,
                   setConfig(prev => ({
                       ...prev, 
                       rowCount: val,
-                      bucketCount: Math.floor(val * 2) // Heuristic auto adjust, but user can override below
+                      // Heuristic auto adjust, but user can override below (fixed for triangles)
+                      bucketCount: prev.pegArrangement === 'triangle' ? val + 1 : Math.floor(val * 2)
                     }));
               }}
               disabled={disabled}
@@ -66,13 +163,13 @@ const Controls: React.FC<ControlsProps> = ({ config, setConfig, ballDefinitions,
           <div>
              <div className="flex justify-between mb-1">
               <label className="text-sm font-medium text-slate-700">Bucket Columns</label>
-              <span className="text-sm text-slate-500">{config.bucketCount}</span>
+              <span className="text-sm text-slate-500">{config.bucketCount}{isTriangle && ' (rows + 1)'}</span>
             </div>
              <input 
               type="range" min="4" max="50" step="1"
               value={config.bucketCount}
               onChange={(e) => handleChange('bucketCount', parseInt(e.target.value))}
-              disabled={disabled}
+              disabled={disabled || isTriangle}
               className="w-full accent-indigo-600 cursor-pointer disabled:opacity-50"
             />
           </div>
@@ -90,12 +187,189 @@ const Controls: React.FC<ControlsProps> = ({ config, setConfig, ballDefinitions,
               className="w-full accent-indigo-600 cursor-pointer disabled:opacity-50"
             />
           </div>
+
+          <div>
+            <div className="flex justify-between mb-1">
+              <label className="text-sm font-medium text-slate-700">Random Seed</label>
+              <span className="text-xs text-slate-400">Same seed, same run</span>
+            </div>
+            <div className="flex items-center gap-2">
+              <input 
+                type="number" min="0" step="1"
+                value={config.seed}
+                onChange={(e) => handleChange('seed', Math.max(0, parseInt(e.target.value) || 0))}
+                disabled={disabled}
+                className="w-full bg-white border border-slate-300 rounded px-2 py-1 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none disabled:opacity-50"
+              />
+              <button
+                onClick={() => handleChange('seed', randomSeed())}
+                disabled={disabled}
+                className="p-1.5 bg-white border border-slate-300 text-slate-600 hover:bg-slate-50 rounded disabled:opacity-50"
+                title="Pick a new random seed"
+              >
+                <Dices className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+
+          <div>
+            <div className="flex justify-between mb-1">
+              <label className="text-sm font-medium text-slate-700">Peg Layout</label>
+              <span className="text-xs text-slate-400">
+                {config.pegLayout ? `Custom, ${config.pegLayout.length} pegs` : 'Generated grid'}
+              </span>
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={onToggleEditPegs}
+                disabled={disabled}
+                className={`flex-1 flex items-center justify-center gap-1.5 px-2 py-1.5 text-xs font-medium rounded border transition-colors disabled:opacity-50 ${
+                  isEditingPegs
+                    ? 'bg-indigo-600 border-indigo-600 text-white'
+                    : 'bg-white border-slate-300 text-slate-700 hover:bg-slate-50'
+                }`}
+                title="Click the board to add pegs, click a peg to remove it, drag to move"
+              >
+                <PenTool className="w-3.5 h-3.5" /> {isEditingPegs ? 'Done editing' : 'Edit pegs'}
+              </button>
+              <button
+                onClick={() => setConfig(prev => ({ ...prev, pegLayout: null }))}
+                disabled={disabled || !config.pegLayout}
+                className="flex-1 flex items-center justify-center gap-1.5 px-2 py-1.5 text-xs font-medium rounded border bg-white border-slate-300 text-slate-700 hover:bg-slate-50 disabled:opacity-50"
+                title="Go back to the generated staggered grid"
+              >
+                <Grid3x3 className="w-3.5 h-3.5" /> Reset to grid
+              </button>
+            </div>
+            {config.pegLayout && config.simulationMode === 'fast' && (
+              <p className="mt-1 text-xs text-amber-600">Fast mode samples the regular grid and ignores custom pegs.</p>
+            )}
+          </div>
+        </div>
+      </section>
+
+      <hr className="border-slate-100" />
+
+      {/* 2. Simulation Mode */}
+      <section>
+        <h2 className="text-sm uppercase tracking-wide text-slate-500 font-bold mb-4">Simulation Mode</h2>
+        
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            {(['physics', 'fast'] as SimulationMode[]).map(mode => (
+              <button
+                key={mode}
+                onClick={() => handleModeChange(mode)}
+                disabled={disabled}
+                className={`px-3 py-2 rounded-md text-sm font-medium border transition-colors disabled:opacity-50 ${
+                  config.simulationMode === mode
+                    ? 'bg-indigo-600 border-indigo-600 text-white'
+                    : 'bg-white border-slate-300 text-slate-700 hover:bg-slate-50'
+                }`}
+              >
+                {mode === 'physics' ? 'Physical Board' : 'Fast (Coin Flips)'}
+              </button>
+            ))}
+          </div>
+
+          {config.simulationMode === 'fast' && (
+            <div>
+              <label className="text-sm font-medium text-slate-700 block mb-1">Animation</label>
+              <select
+                value={config.fastAnimation}
+                onChange={(e) => setConfig(prev => ({ ...prev, fastAnimation: e.target.value as SimulationConfig['fastAnimation'] }))}
+                disabled={disabled}
+                className="w-full bg-white border border-slate-300 rounded px-2 py-1 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none disabled:opacity-50"
+              >
+                <option value="paths">Animate peg-to-peg paths</option>
+                <option value="none">No animation (large N)</option>
+              </select>
+              <p className="text-xs text-slate-400 mt-1">
+                Samples one left/right decision per peg row instead of simulating collisions.
+              </p>
+            </div>
+          )}
+
+          {config.simulationMode === 'physics' && (
+            <div className="space-y-3">
+              <div>
+                <label className="text-sm font-medium text-slate-700 block mb-1">Release</label>
+                <div className="grid grid-cols-2 gap-2">
+                  {(['pile', 'metered'] as ReleaseMode[]).map(mode => (
+                    <button
+                      key={mode}
+                      onClick={() => setConfig(prev => ({ ...prev, releaseMode: mode }))}
+                      disabled={disabled}
+                      className={`px-3 py-1.5 rounded-md text-sm font-medium border transition-colors disabled:opacity-50 ${
+                        config.releaseMode === mode
+                          ? 'bg-indigo-600 border-indigo-600 text-white'
+                          : 'bg-white border-slate-300 text-slate-700 hover:bg-slate-50'
+                      }`}
+                    >
+                      {mode === 'pile' ? 'Pile in funnel' : 'Metered'}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-xs text-slate-400 mt-1">
+                  {config.releaseMode === 'pile'
+                    ? 'Every ball is stacked above the funnel and released when the gate opens.'
+                    : 'Balls wait in the hopper and leave the neck one at a time while the gate is open.'}
+                </p>
+              </div>
+
+              {config.releaseMode === 'metered' && (
+                <>
+                  <div>
+                    <div className="flex justify-between mb-1">
+                      <label className="text-sm font-medium text-slate-700">Release Interval</label>
+                      <span className="text-sm text-slate-500">
+                        {config.dropSpeedMs === 0 ? 'As fast as possible' : `${config.dropSpeedMs} ms (${(1000 / config.dropSpeedMs).toFixed(1)}/s)`}
+                      </span>
+                    </div>
+                    <input
+                      type="range" min="0" max="2000" step="10"
+                      value={config.dropSpeedMs}
+                      onChange={(e) => handleChange('dropSpeedMs', parseInt(e.target.value))}
+                      // Enabled always: the worker picks up a new interval without rebuilding
+                      className="w-full accent-indigo-600 cursor-pointer"
+                    />
+                  </div>
+
+                  <div className="flex gap-2">
+                    <input
+                      type="number" min="1" max="1000"
+                      value={dropBatch}
+                      onChange={(e) => setDropBatch(Math.min(1000, Math.max(1, parseInt(e.target.value) || 1)))}
+                      className="w-20 bg-white border border-slate-300 rounded px-2 py-1 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                    />
+                    <button
+                      onClick={() => onDropBalls(dropBatch)}
+                      className="flex-1 flex items-center justify-center gap-1.5 px-3 py-1.5 rounded-md text-sm font-medium border border-slate-300 text-slate-700 bg-white hover:bg-slate-50"
+                      title="Let the next balls from the hopper through, even with the gate closed"
+                    >
+                      <ArrowDownToLine className="w-4 h-4" /> Drop {dropBatch}
+                    </button>
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+
+          <label className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={autoCloseGate}
+              onChange={(e) => onAutoCloseGateChange(e.target.checked)}
+              className="accent-indigo-600"
+            />
+            Close the gate when the run completes
+          </label>
         </div>
       </section>
 
       <hr className="border-slate-100" />
 
-      {/* 2. Physics Configuration */}
+      {/* 3. Physics Configuration */}
       <section>
         <h2 className="text-sm uppercase tracking-wide text-slate-500 font-bold mb-4">Physics</h2>
         
@@ -146,7 +420,80 @@ const Controls: React.FC<ControlsProps> = ({ config, setConfig, ballDefinitions,
 
       <hr className="border-slate-100" />
 
-      {/* 3. Ball Pool Configuration */}
+      {/* Bias: tilt, peg geometry and the model's p */}
+      <section>
+        <h2 className="text-sm uppercase tracking-wide text-slate-500 font-bold mb-4">Bias</h2>
+
+        <div className="space-y-4">
+          <div>
+            <div className="flex justify-between mb-1">
+              <label className="text-sm font-medium text-slate-700">Board Tilt</label>
+              <span className="text-sm text-slate-500">{config.tilt > 0 ? '+' : ''}{config.tilt}°</span>
+            </div>
+            <input 
+              type="range" min="-10" max="10" step="0.5"
+              value={config.tilt}
+              onChange={(e) => handleChange('tilt', parseFloat(e.target.value))}
+              disabled={disabled}
+              className="w-full accent-indigo-600 cursor-pointer disabled:opacity-50"
+            />
+          </div>
+
+          <div>
+            <div className="flex justify-between mb-1">
+              <label className="text-sm font-medium text-slate-700">Row Offset</label>
+              <span className="text-sm text-slate-500">{(config.rowOffset * 100).toFixed(0)}% per row</span>
+            </div>
+            <input 
+              type="range" min="-0.25" max="0.25" step="0.01"
+              value={config.rowOffset}
+              onChange={(e) => handleChange('rowOffset', parseFloat(e.target.value))}
+              disabled={disabled}
+              className="w-full accent-indigo-600 cursor-pointer disabled:opacity-50"
+            />
+          </div>
+
+          <div className="flex justify-between items-center">
+            <label className="text-sm font-medium text-slate-700">Peg Shape</label>
+            <select
+              value={config.pegShape}
+              onChange={(e) => setConfig(prev => ({ ...prev, pegShape: e.target.value as PegShape }))}
+              disabled={disabled}
+              className="text-sm border border-slate-300 rounded-md px-2 py-1 disabled:opacity-50"
+            >
+              <option value="round">Round</option>
+              <option value="wedgeLeft">Wedge (deflects left)</option>
+              <option value="wedgeRight">Wedge (deflects right)</option>
+            </select>
+          </div>
+          {config.simulationMode === 'fast' && (
+            <p className="text-xs text-amber-600">
+              Fast mode samples coin flips with the model p: it ignores tilt and peg shape, and the row offset only shifts where balls land.
+            </p>
+          )}
+
+          <div>
+            <div className="flex justify-between mb-1">
+              <label className="text-sm font-medium text-slate-700">Model p (right bounce)</label>
+              <span className="text-sm text-slate-500">{config.rightProbability.toFixed(2)}</span>
+            </div>
+            <input 
+              type="range" min="0.01" max="0.99" step="0.01"
+              value={config.rightProbability}
+              onChange={(e) => handleChange('rightProbability', parseFloat(e.target.value))}
+              disabled={disabled}
+              className="w-full accent-indigo-600 cursor-pointer disabled:opacity-50"
+            />
+            <p className="mt-1 text-xs text-slate-400">
+              Drives the expected curve and fast mode. Use “Calibrate to p̂” under Statistics to match a tilted board.
+            </p>
+          </div>
+        </div>
+      </section>
+
+      <hr className="border-slate-100" />
+
+      {/* 4. Ball Pool Configuration */}
       <section className={disabled ? "opacity-50 pointer-events-none" : ""}>
         <div className="flex justify-between items-center mb-4">
             <h2 className="text-sm uppercase tracking-wide text-slate-500 font-bold">Ball Pool</h2>
@@ -155,31 +502,110 @@ const Controls: React.FC<ControlsProps> = ({ config, setConfig, ballDefinitions,
             </div>
         </div>
         
+        <div className="mb-3">
+            <label className="text-sm font-medium text-slate-700 block mb-1">Drop Order</label>
+            <select
+                value={config.dropOrder}
+                onChange={(e) => setConfig(prev => ({ ...prev, dropOrder: e.target.value as DropOrder }))}
+                className="w-full bg-white border border-slate-300 rounded px-2 py-1 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+            >
+                <option value="sequential">Sequential (group by group)</option>
+                <option value="roundRobin">Round-robin (interleaved)</option>
+                <option value="shuffled">Shuffled (uses the seed)</option>
+                <option value="weighted">Weighted random by count</option>
+            </select>
+            <p className="text-xs text-slate-400 mt-1">
+                {config.dropOrder === 'sequential'
+                    ? 'Later groups sit higher in the hopper and fall under less pile pressure.'
+                    : config.dropOrder === 'weighted'
+                        ? 'Groups are spread through the hopper in proportion to their counts, each ball at a random spot in its share.'
+                        : 'Groups are mixed through the hopper, so they pass the funnel under the same pressure.'}
+            </p>
+        </div>
+
         <div className="bg-slate-50 rounded-lg border border-slate-200 p-4 space-y-3">
-            {DEFAULT_COLORS.map((color) => {
-                const def = ballDefinitions.find(d => d.color.id === color.id);
-                const count = def ? def.count : 0;
-                
-                return (
-                    <div key={color.id} className="flex items-center gap-3">
-                        <div 
-                            className="w-6 h-6 rounded-full border border-black/10 flex-none shadow-sm"
-                            style={{ backgroundColor: color.color }}
-                        />
-                        <span className="text-sm text-slate-700 font-medium w-16">{color.name}</span>
-                        <div className="flex-1 flex items-center gap-2">
-                             <input 
-                                type="number" 
-                                min="0" 
-                                max="2000"
-                                value={count}
-                                onChange={(e) => handleCountChange(color.id, parseInt(e.target.value) || 0)}
-                                className="w-full bg-white border border-slate-300 rounded px-2 py-1 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none"
-                             />
-                        </div>
+            {ballDefinitions.map(({ color, count, physics }) => (
+                <div key={color.id}>
+                <div className="flex items-center gap-2">
+                    {/* Native color picker styled as the swatch */}
+                    <input
+                        type="color"
+                        value={color.color}
+                        onChange={(e) => handleGroupChange(color.id, { color: e.target.value })}
+                        className="w-6 h-6 flex-none rounded-full border border-black/10 shadow-sm cursor-pointer overflow-hidden p-0 [&::-webkit-color-swatch-wrapper]:p-0 [&::-webkit-color-swatch]:border-none [&::-webkit-color-swatch]:rounded-full"
+                        title="Change color"
+                    />
+                    <input
+                        type="text"
+                        value={color.name}
+                        onChange={(e) => handleGroupChange(color.id, { name: e.target.value })}
+                        className="w-28 bg-white border border-slate-300 rounded px-2 py-1 text-sm text-slate-700 font-medium focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                        placeholder="Name"
+                    />
+                    <input 
+                        type="number" 
+                        min="0" 
+                        max={maxCount}
+                        value={count}
+                        onChange={(e) => handleCountChange(color.id, Math.min(maxCount, parseInt(e.target.value) || 0))}
+                        className="flex-1 min-w-0 bg-white border border-slate-300 rounded px-2 py-1 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                    />
+                    <button
+                        onClick={() => setPhysicsGroupId(physicsGroupId === color.id ? null : color.id)}
+                        className={`p-1 ${physics ? 'text-indigo-600' : 'text-slate-400'} hover:text-indigo-700`}
+                        title={physics ? 'Physics overrides (active)' : 'Physics overrides'}
+                    >
+                        <SlidersHorizontal className="w-4 h-4" />
+                    </button>
+                    <button
+                        onClick={() => handleRemoveGroup(color.id)}
+                        disabled={ballDefinitions.length <= 1}
+                        className="p-1 text-slate-400 hover:text-red-600 disabled:opacity-30 disabled:hover:text-slate-400"
+                        title="Remove this group"
+                    >
+                        <Trash2 className="w-4 h-4" />
+                    </button>
+                </div>
+
+                {physicsGroupId === color.id && (
+                    <div className="mt-2 ml-8 grid grid-cols-2 gap-2">
+                        {PHYSICS_FIELDS.map(({ key, label }) => {
+                            const limits = BALL_PHYSICS_LIMITS[key];
+                            return (
+                                <label key={key} className="flex items-center justify-between gap-2 text-xs text-slate-600">
+                                    {label}
+                                    <input
+                                        type="number"
+                                        min={limits.min}
+                                        max={limits.max}
+                                        step={limits.step}
+                                        value={physicsDrafts[key] ?? physics?.[key] ?? ''}
+                                        placeholder={String(physicsDefaults[key])}
+                                        onChange={(e) => setPhysicsDrafts(prev => ({ ...prev, [key]: e.target.value }))}
+                                        onBlur={() => commitPhysics(color.id, key)}
+                                        onKeyDown={(e) => { if (e.key === 'Enter') commitPhysics(color.id, key); }}
+                                        className="w-20 bg-white border border-slate-300 rounded px-1.5 py-0.5 text-xs focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                                        title={`Blank uses the board setting (${physicsDefaults[key]})`}
+                                    />
+                                </label>
+                            );
+                        })}
+                        {config.simulationMode === 'fast' && (
+                            <p className="col-span-2 text-xs text-amber-600">Fast mode samples coin flips and ignores these.</p>
+                        )}
                     </div>
-                );
-            })}
+                )}
+                </div>
+            ))}
+
+            <button
+                onClick={handleAddGroup}
+                disabled={ballDefinitions.length >= MAX_BALL_GROUPS}
+                className="w-full flex items-center justify-center gap-1.5 px-2 py-1.5 text-xs font-medium rounded border border-dashed border-slate-300 text-slate-600 hover:bg-white disabled:opacity-50"
+                title={`Up to ${MAX_BALL_GROUPS} groups`}
+            >
+                <Plus className="w-3.5 h-3.5" /> Add group
+            </button>
         </div>
       </section>
       
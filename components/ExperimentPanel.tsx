@@ -0,0 +1,192 @@
+import React, { useMemo, useState } from 'react';
+import { FlaskConical, Square, Trash2 } from 'lucide-react';
+import { SimulationConfig } from '../types';
+import { bucketSpread, expectedBucketProbabilities } from '../utils/statistics';
+
+// A batch of repeated runs: every trial is Reset -> Add balls -> Open -> wait for completion
+export interface Experiment {
+  trialCount: number;
+  baseSeed: number; // Trial i runs with seed baseSeed + i, so trials differ but can be reproduced
+  trials: number[][]; // Bucket counts of every finished trial
+  running: boolean;
+}
+
+interface ExperimentPanelProps {
+  experiment: Experiment | null;
+  config: SimulationConfig;
+  bucketLabels: string[];
+  onStart: (trialCount: number) => void;
+  onStop: () => void;
+  onClear: () => void;
+}
+
+export const MAX_TRIALS = 50;
+
+const CHART_WIDTH = 320;
+const CHART_HEIGHT = 120;
+const MINI_WIDTH = 56;
+const MINI_HEIGHT = 28;
+
+const MiniHistogram: React.FC<{ counts: number[] }> = ({ counts }) => {
+  const max = Math.max(1, ...counts);
+  const barWidth = MINI_WIDTH / Math.max(1, counts.length);
+  return (
+    <svg viewBox={`0 0 ${MINI_WIDTH} ${MINI_HEIGHT}`} className="w-full h-7 bg-white rounded border border-slate-200">
+      {counts.map((count, i) => {
+        const h = (count / max) * (MINI_HEIGHT - 2);
+        return <rect key={i} x={i * barWidth} y={MINI_HEIGHT - h} width={Math.max(0.5, barWidth - 0.5)} height={h} fill="#818cf8" />;
+      })}
+    </svg>
+  );
+};
+
+/** Repeats the configured run and shows how much each bucket varies from trial to trial. */
+const ExperimentPanel: React.FC<ExperimentPanelProps> = ({ experiment, config, bucketLabels, onStart, onStop, onClear }) => {
+  const [trialCount, setTrialCount] = useState(10);
+
+  const expected = useMemo(
+    () => expectedBucketProbabilities(config.rowCount, config.bucketCount, config.rightProbability, config.rowOffset),
+    [config.rowCount, config.bucketCount, config.rightProbability, config.rowOffset]
+  );
+
+  const trials = experiment?.trials ?? [];
+  const spread = bucketSpread(trials);
+  const bucketCount = Math.max(0, ...trials.map(t => t.length));
+  const aggregate = Array.from({ length: bucketCount }, (_, i) => trials.reduce((acc, t) => acc + (t[i] ?? 0), 0));
+  const ballsPerTrial = trials.length > 0 ? aggregate.reduce((acc, c) => acc + c, 0) / trials.length : 0;
+
+  // Band chart on the per-trial scale: mean bars, 95% trial band, expected curve
+  const means = aggregate.map(c => c / Math.max(1, trials.length));
+  const expectedCounts = expected.map(p => p * ballsPerTrial);
+  const chartMax = Math.max(1, ...means, ...expectedCounts, ...(spread ?? []).map(s => s.upper));
+  const slot = CHART_WIDTH / Math.max(1, bucketCount);
+  const toY = (value: number) => CHART_HEIGHT - (value / chartMax) * (CHART_HEIGHT - 4);
+
+  const buttonClass = 'flex items-center justify-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-md border transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <section>
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-sm uppercase tracking-wide text-slate-500 font-bold">Experiment</h2>
+        {experiment && (
+          <div className="text-xs font-semibold bg-indigo-50 text-indigo-700 px-2 py-1 rounded">
+            {experiment.running
+              ? `Trial ${Math.min(trials.length + 1, experiment.trialCount)} of ${experiment.trialCount}`
+              : `${trials.length} trials`}
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center gap-2">
+          <label className="text-sm font-medium text-slate-700">Trials</label>
+          <input
+            type="number" min="2" max={MAX_TRIALS}
+            value={trialCount}
+            onChange={(e) => setTrialCount(Math.min(MAX_TRIALS, Math.max(2, parseInt(e.target.value) || 2)))}
+            disabled={experiment?.running}
+            className="w-16 bg-white border border-slate-300 rounded px-2 py-1 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none disabled:opacity-50"
+          />
+          {experiment?.running ? (
+            <button onClick={onStop} className={`${buttonClass} flex-1 border-red-300 bg-red-50 text-red-700 hover:bg-red-100`}>
+              <Square className="w-3.5 h-3.5 fill-current" /> Stop
+            </button>
+          ) : (
+            <button
+              onClick={() => onStart(trialCount)}
+              className={`${buttonClass} flex-1 border-indigo-600 bg-indigo-600 text-white hover:bg-indigo-700`}
+              title="Reset, add balls, open the gate and wait for completion, once per trial"
+            >
+              <FlaskConical className="w-3.5 h-3.5" /> Run {trialCount} trials
+            </button>
+          )}
+          <button
+            onClick={onClear}
+            disabled={!experiment || experiment.running}
+            className={`${buttonClass} border-slate-300 text-slate-600 hover:bg-slate-50`}
+            title="Discard the collected trials"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+          </button>
+        </div>
+        <p className="text-xs text-slate-400">
+          Each trial uses the current board with seed {experiment ? experiment.baseSeed : 'S'} + trial number; comparison boards add the trial number to their own seeds. Reset goes back to the seeds you set.
+        </p>
+
+        {trials.length > 0 && (
+          <>
+            <div className="grid grid-cols-5 gap-1">
+              {trials.map((counts, t) => (
+                <div key={t} title={`Trial ${t + 1}: ${counts.reduce((acc, c) => acc + c, 0)} balls`}>
+                  <MiniHistogram counts={counts} />
+                  <div className="text-[10px] text-center text-slate-400">#{t + 1}</div>
+                </div>
+              ))}
+            </div>
+
+            <div>
+              <div className="text-xs text-slate-500 mb-1">
+                Mean per trial with 95% trial-to-trial band (aggregate n = {aggregate.reduce((acc, c) => acc + c, 0)})
+              </div>
+              <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full bg-slate-50 rounded border border-slate-200">
+                {means.map((mean, i) => (
+                  <rect
+                    key={i}
+                    x={i * slot + 1} y={toY(mean)}
+                    width={Math.max(1, slot - 2)} height={CHART_HEIGHT - toY(mean)}
+                    fill="rgba(79, 70, 229, 0.25)" stroke="rgba(79, 70, 229, 0.6)"
+                  />
+                ))}
+                {spread?.map((s, i) => {
+                  const x = i * slot + slot / 2;
+                  return (
+                    <g key={i} stroke="#0f172a" strokeWidth={1}>
+                      <line x1={x} y1={toY(s.lower)} x2={x} y2={toY(s.upper)} />
+                      <line x1={x - slot / 4} y1={toY(s.lower)} x2={x + slot / 4} y2={toY(s.lower)} />
+                      <line x1={x - slot / 4} y1={toY(s.upper)} x2={x + slot / 4} y2={toY(s.upper)} />
+                    </g>
+                  );
+                })}
+                <polyline
+                  points={expectedCounts.map((value, i) => `${i * slot + slot / 2},${toY(value)}`).join(' ')}
+                  fill="none" stroke="#dc2626" strokeWidth={1.5}
+                />
+              </svg>
+            </div>
+
+            {spread ? (
+              <div className="bg-slate-50 rounded-lg border border-slate-200 overflow-x-auto">
+                <table className="w-full text-xs font-mono">
+                  <thead>
+                    <tr className="text-slate-500 border-b border-slate-200">
+                      <th className="text-left px-2 py-1 font-semibold">Bucket</th>
+                      <th className="text-right px-2 py-1 font-semibold">Mean</th>
+                      <th className="text-right px-2 py-1 font-semibold" title="95% confidence interval of the mean">Mean CI</th>
+                      <th className="text-right px-2 py-1 font-semibold">Var</th>
+                      <th className="text-right px-2 py-1 font-semibold" title="Binomial variance N·p·(1 − p) of a bucket's count">Exp. var</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {spread.map((s, i) => (
+                      <tr key={i} className="text-slate-700 border-b border-slate-100 last:border-0">
+                        <td className="px-2 py-1">{bucketLabels[i] ?? i + 1}</td>
+                        <td className="text-right px-2 py-1">{s.mean.toFixed(1)}</td>
+                        <td className="text-right px-2 py-1">{s.meanLower.toFixed(1)}–{s.meanUpper.toFixed(1)}</td>
+                        <td className="text-right px-2 py-1">{s.variance.toFixed(1)}</td>
+                        <td className="text-right px-2 py-1">{(ballsPerTrial * (expected[i] ?? 0) * (1 - (expected[i] ?? 0))).toFixed(1)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <p className="text-xs text-slate-400">Run-to-run variance appears after the second trial.</p>
+            )}
+          </>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default ExperimentPanel;
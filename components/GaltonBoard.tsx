@@ -1,62 +1,160 @@
 
-import React, { useEffect, useRef, useState } from 'react';
-import Matter from 'matter-js';
-import { SimulationConfig, BallColor, SimulationStatus } from '../types';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { SimulationConfig, BallColor, BallPhysics, BallTrace, SimulationStatus, BucketTally, PegPosition, RunSummary } from '../types';
+import { expectedBucketProbabilities, describeDistribution, chiSquareGoodnessOfFit, formatPValue } from '../utils/statistics';
+import { CaptureOptions, CaptureScene, VideoCapture, captureToPng, startVideoCapture } from '../utils/capture';
+import { downloadFile, timestampedName } from '../utils/export';
+import { Heatmap, createHeatmap, accumulateFrame, drawHeatmap } from '../utils/heatmap';
+import { LayoutConfig, getLayoutMetrics, getPegPositions } from '../simulation/layout';
+import { FrameData, StaticBodyShape, WorkerCommand, WorkerEvent, packQueue } from '../simulation/protocol';
+import { Recording, createRecording, appendFrame, frameAt, getDuration } from '../simulation/recording';
+import BucketHistogram from './BucketHistogram';
+import ReplayBar from './ReplayBar';
+import PegEditor from './PegEditor';
 
 interface GaltonBoardProps {
   status: SimulationStatus;
   config: SimulationConfig;
   ballQueue: BallColor[];
+  ballPhysics?: Record<string, BallPhysics>; // Per-group overrides by BallColor.id
   bucketLabels: string[];
-  onComplete: () => void;
+  onComplete: (summary: RunSummary) => void;
   onLabelChange: (index: number, value: string) => void;
+  onTallyChange?: (tally: BucketTally, elapsedMs: number) => void;
   fillTrigger: number;
   resetTrigger: number;
   isGateOpen: boolean;
+  dropTrigger?: number; // Increment to let `dropCount` balls through in metered release
+  dropCount?: number;
+  stepTrigger?: number; // Increment to advance a paused board by one tick
+  timeScale?: number; // Simulation speed, 1 = real time
+  recordingIntervalMs?: number; // Sample ball positions this often while running, 0 = off
+  onRecordingUpdate?: (recording: Recording) => void;
+  replay?: Recording | null; // When set, the board shows this recording instead of the live run
+  onExitReplay?: () => void;
+  captureTrigger?: number; // Increment to download a PNG snapshot of the board
+  isRecordingVideo?: boolean; // WebM clip is recorded while true, downloaded when it turns false
+  captureOptions?: CaptureOptions;
+  isEditingPegs?: boolean;
+  onPegLayoutChange?: (pegs: PegPosition[]) => void;
+  traceTrigger?: number; // Increment to follow a random ball that hasn't reached the pegs
+  clearTraceTrigger?: number;
+  onTraceChange?: (trace: BallTrace | null) => void; // Also enables picking a ball by clicking it
+  showHeatmap?: boolean; // Ball traffic heatmap under the balls, counted while shown
+  heatmapColorId?: string | null; // Only this group's balls; null = all balls
 }
 
+const BOARD_BACKGROUND = '#eaddcf';
+const NO_BALL_PHYSICS: Record<string, BallPhysics> = {};
+
+// Configs that build the same board; the release interval is tuned live instead.
+// The model p only drives the fast sampler; physics boards use it for the expected curve alone
+const isSameBoard = (a: SimulationConfig, b: SimulationConfig) =>
+  (Object.keys(b) as (keyof SimulationConfig)[]).every(key =>
+    key === 'dropSpeedMs'
+    || (key === 'rightProbability' && b.simulationMode === 'physics')
+    || a[key] === b[key]);
+
+// Minimum wall time between recording updates sent to the parent
+const RECORDING_PUBLISH_MS = 1000;
+
+// The heatmap changes slowly, so it isn't redrawn every frame
+const HEATMAP_REDRAW_MS = 250;
+
+const TRACE_COLOR = '#e11d48';
+
 const GaltonBoard: React.FC<GaltonBoardProps> = ({ 
   status, 
   config, 
   ballQueue, 
+  ballPhysics = NO_BALL_PHYSICS,
   bucketLabels, 
   onComplete,
   onLabelChange,
+  onTallyChange,
   fillTrigger,
   resetTrigger,
-  isGateOpen
+  isGateOpen,
+  dropTrigger = 0,
+  dropCount = 0,
+  stepTrigger = 0,
+  timeScale = 1,
+  recordingIntervalMs = 0,
+  onRecordingUpdate,
+  replay = null,
+  onExitReplay,
+  captureTrigger = 0,
+  isRecordingVideo = false,
+  captureOptions = { histogram: true, caption: true },
+  isEditingPegs = false,
+  onPegLayoutChange,
+  traceTrigger = 0,
+  clearTraceTrigger = 0,
+  onTraceChange,
+  showHeatmap = false,
+  heatmapColorId = null
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   
-  // Two canvases: One for static elements (pegs/walls), one for dynamic (balls/gates)
+  // Two canvases: One for static elements (pegs/walls), one for dynamic (balls/gates),
+  // plus the optional traffic heatmap between them
   const staticCanvasRef = useRef<HTMLCanvasElement>(null);
+  const heatmapCanvasRef = useRef<HTMLCanvasElement>(null);
   const dynamicCanvasRef = useRef<HTMLCanvasElement>(null);
 
-  const engineRef = useRef<Matter.Engine | null>(null);
-  const runnerRef = useRef<Matter.Runner | null>(null);
-  
-  // Gate Refs
-  const leftGateRef = useRef<Matter.Body | null>(null);
-  const rightGateRef = useRef<Matter.Body | null>(null);
+  // Physics (or fast sampling) runs in a worker; we keep only what we need to draw
+  const workerRef = useRef<Worker | null>(null);
+  const staticBodiesRef = useRef<StaticBodyShape[]>([]);
+  const frameRef = useRef<FrameData | null>(null); // Latest packed ball positions
+  const lastDrawnFrameRef = useRef<FrameData | null>(null);
   
   // Optimization Refs
-  const ballsRef = useRef<Matter.Body[]>([]); // Direct access to ball bodies to avoid world filtering
-  const spriteCacheRef = useRef<Record<string, HTMLCanvasElement>>({}); // Pre-rendered sprites
-  const layoutRef = useRef<any>(null); // Cached layout metrics
+  const spriteCacheRef = useRef<Record<string, HTMLCanvasElement>>({}); // Pre-rendered sprites by color and radius
   
-  // State Refs for Loop Access
-  const isGateOpenRef = useRef(isGateOpen);
   const resizeTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   
   const animationFrameRef = useRef<number>(0);
   const onCompleteRef = useRef(onComplete);
-
-  // Track bodies for custom rendering
-  const staticBodiesRef = useRef<Matter.Body[]>([]);
+  const onTallyChangeRef = useRef(onTallyChange);
+
+  // Recorder: samples incoming frames while running, restarted on every board rebuild
+  const statusRef = useRef(status);
+  const recordingIntervalRef = useRef(recordingIntervalMs);
+  const onRecordingUpdateRef = useRef(onRecordingUpdate);
+  const recordingRef = useRef<Recording | null>(null);
+  const boardContextRef = useRef({ config, dimensions: { width: 0, height: 0 } }); // What the last rebuild used
+  const settledRef = useRef(false);
+  // Rebuilds posted but not yet answered: stats until then still describe the old board
+  const pendingRebuildsRef = useRef(0);
+  const lastSampleSettledRef = useRef(false);
+  const lastPublishRef = useRef(0);
+
+  // Followed ball: drawn every frame, passed up only when a row is decided or it lands
+  const traceRef = useRef<BallTrace | null>(null);
+  const onTraceChangeRef = useRef(onTraceChange);
+  const lastTraceKeyRef = useRef('');
+
+  // Traffic heatmap: rebuilt with the board, filled from incoming frames while shown
+  const heatmapRef = useRef<Heatmap | null>(null);
+  const heatmapGroupRef = useRef<string | null>(null); // Id of the shown group, null = all balls
+  const showHeatmapRef = useRef(showHeatmap);
+  const lastHeatmapDrawRef = useRef(0);
+
+  // Replay: playback position lives in a ref for drawing, mirrored to state for the controls
+  const replayRef = useRef<Recording | null>(replay);
+  const replayTimeRef = useRef(0);
+  const replayPlayingRef = useRef(false);
+  const replaySpeedRef = useRef(1);
+  const [replayTime, setReplayTime] = useState(0);
+  const [replayPlaying, setReplayPlaying] = useState(false);
+  const [replaySpeed, setReplaySpeed] = useState(1);
 
   // FPS and Stats Tracking
   const [fps, setFps] = useState(0);
+  const [stepsPerSecond, setStepsPerSecond] = useState(0);
   const [activeBallCount, setActiveBallCount] = useState(0);
+  const [totalBallCount, setTotalBallCount] = useState(0);
+  const [tally, setTally] = useState<BucketTally>({ total: [], byColor: {} });
   const fpsRef = useRef({ startTime: 0, frameCount: 0 });
   const lastStateUpdateRef = useRef(0);
 
@@ -65,121 +163,93 @@ const GaltonBoard: React.FC<GaltonBoardProps> = ({
   }, [onComplete]);
 
   useEffect(() => {
-    isGateOpenRef.current = isGateOpen;
-    
-    // Initial wake up signal when gate opens
-    if (isGateOpen && engineRef.current) {
-        // Use the optimized ref
-        const balls = ballsRef.current;
-        for (const body of balls) {
-             Matter.Sleeping.set(body, false);
-        }
-    }
-  }, [isGateOpen]);
-  
-  const [dimensions, setDimensions] = useState({ width: 0, height: 0 });
+    onTallyChangeRef.current = onTallyChange;
+  }, [onTallyChange]);
 
-  // Helper to calculate consistent layout metrics
-  const getLayoutMetrics = (width: number, height: number, cfg: SimulationConfig) => {
-    const { rowCount, bucketCount } = cfg;
-    const topMargin = 10;
-    
-    const funnelSlopeHeight = Math.max(70, height * 0.15);
-    const funnelNeckHeight = 40; // EXTENDED: Vertical channel to straighten balls for normal distribution
-    const funnelExitY = funnelSlopeHeight + funnelNeckHeight;
-    
-    const gap = 30; // Gap between funnel exit and first peg
-    
-    // NEW LOGIC: Always fill the full width of the container
-    const spacingX = width / bucketCount;
-    
-    // Ideal vertical spacing based on ratio (0.75 for better clearance)
-    const idealSpacingY = spacingX * 0.75; 
-    
-    // Calculate available vertical space for the peg block
-    const minViableBinHeight = Math.max(150, height * 0.3);
-    const availableHeightForPegs = height - funnelExitY - topMargin - gap - minViableBinHeight;
-    
-    let spacingY = idealSpacingY;
-    const requiredHeight = (rowCount - 1) * spacingY;
-    
-    // If the ideal layout doesn't fit vertically, squash the vertical spacing
-    if (requiredHeight > availableHeightForPegs) {
-        spacingY = Math.max(10, availableHeightForPegs / (rowCount - 1));
-    }
-    
-    const finalPegBlockHeight = (rowCount - 1) * spacingY;
-    
-    // Use funnelSlopeHeight for where the angle ends, but exit is lower
-    const pegStartY = funnelExitY + gap;
-    const binStartY = pegStartY + finalPegBlockHeight + (spacingY * 0.5);
-    const realBinHeight = Math.max(0, height - binStartY);
-
-    return {
-        funnelSlopeHeight,
-        funnelNeckHeight,
-        funnelExitY,
-        pegStartY,
-        binStartY,
-        binHeight: realBinHeight,
-        spacingX,
-        spacingY
-    };
+  useEffect(() => {
+    onTraceChangeRef.current = onTraceChange;
+  }, [onTraceChange]);
+
+  useEffect(() => {
+    statusRef.current = status;
+    recordingIntervalRef.current = recordingIntervalMs;
+    onRecordingUpdateRef.current = onRecordingUpdate;
+  }, [status, recordingIntervalMs, onRecordingUpdate]);
+
+  // Publish tally updates to the parent alongside our own histogram
+  const updateTally = (next: BucketTally, elapsedMs: number) => {
+    setTally(next);
+    onTallyChangeRef.current?.(next, elapsedMs);
+  };
+
+  const postCommand = (command: WorkerCommand, transfer: Transferable[] = []) => {
+    workerRef.current?.postMessage(command, transfer);
   };
 
-  // Update cached layout when dimensions or config change
   useEffect(() => {
-      if (dimensions.width > 0) {
-          layoutRef.current = getLayoutMetrics(dimensions.width, dimensions.height, config);
-      }
-  }, [dimensions, config]);
+    postCommand({ type: 'setGate', open: isGateOpen });
+  }, [isGateOpen]);
+
+  useEffect(() => {
+    postCommand({ type: 'setDropInterval', ms: config.dropSpeedMs });
+  }, [config.dropSpeedMs]);
+
+  // Pausing stops the engine itself, not just the drawing
+  useEffect(() => {
+    postCommand({ type: 'setPaused', paused: status === 'paused' });
+  }, [status]);
 
-  // Generate Sprites for GPU Optimized Rendering
   useEffect(() => {
+    postCommand({ type: 'setTimeScale', scale: timeScale });
+  }, [timeScale]);
+
+  useEffect(() => {
+    if (stepTrigger > 0) postCommand({ type: 'step' });
+  }, [stepTrigger]);
+
+  // Only changes when the board itself has to be rebuilt
+  const boardConfigRef = useRef(config);
+  if (!isSameBoard(boardConfigRef.current, config)) boardConfigRef.current = config;
+  const boardConfig = boardConfigRef.current;
+  
+  const [dimensions, setDimensions] = useState({ width: 0, height: 0 });
+
+  // Generate Sprites for GPU Optimized Rendering
+  // Built on first use: groups may differ in size, so sprites are keyed by color and radius
+  const getSprite = (color: string, radius: number) => {
+      const key = `${color}/${radius}`;
+      const cached = spriteCacheRef.current[key];
+      if (cached) return cached;
+
       const pixelRatio = window.devicePixelRatio || 1;
-      const radius = config.ballSize;
       const size = (radius * 2) + 2; // +2 for antialiasing padding
-      const newCache: Record<string, HTMLCanvasElement> = {};
-      
-      // Get unique colors from the queue and defaults to be safe
-      const colors = new Set<string>();
-      ballQueue.forEach(b => colors.add(b.color));
-      
-      colors.forEach(color => {
-          const c = document.createElement('canvas');
-          c.width = size * pixelRatio;
-          c.height = size * pixelRatio;
-          const ctx = c.getContext('2d');
-          if (ctx) {
-              ctx.scale(pixelRatio, pixelRatio);
-              ctx.beginPath();
-              // Center the circle in the sprite
-              ctx.arc(size / 2, size / 2, radius, 0, Math.PI * 2);
-              ctx.fillStyle = color;
-              ctx.fill();
-          }
-          newCache[color] = c;
-      });
-      
-      spriteCacheRef.current = newCache;
-  }, [config.ballSize, ballQueue]);
+      const c = document.createElement('canvas');
+      c.width = size * pixelRatio;
+      c.height = size * pixelRatio;
+      const ctx = c.getContext('2d');
+      if (ctx) {
+          ctx.scale(pixelRatio, pixelRatio);
+          ctx.beginPath();
+          // Center the circle in the sprite
+          ctx.arc(size / 2, size / 2, radius, 0, Math.PI * 2);
+          ctx.fillStyle = color;
+          ctx.fill();
+      }
+      spriteCacheRef.current[key] = c;
+      return c;
+  };
 
-  // Initialize Physics Engine
+  // Start the simulation worker and track container size
   useEffect(() => {
     if (!containerRef.current) return;
 
-    // OPTIMIZATION: Enable Sleeping
-    const engine = Matter.Engine.create({
-      enableSleeping: true, 
-      gravity: { x: 0, y: 1, scale: 0.001 }
-    });
-    engineRef.current = engine;
-
-    const runner = Matter.Runner.create();
-    runnerRef.current = runner;
-
-    // Start the physics runner
-    Matter.Runner.run(runner, engine);
+    const worker = new Worker(new URL('../simulation/simulation.worker.ts', import.meta.url), { type: 'module' });
+    workerRef.current = worker;
+    pendingRebuildsRef.current = 0;
+    worker.onmessage = (event: MessageEvent<WorkerEvent>) => handleWorkerEvent(event.data);
+    // The pause and time scale effects ran before the worker existed; a board added mid-run needs both
+    postCommand({ type: 'setPaused', paused: status === 'paused' });
+    postCommand({ type: 'setTimeScale', scale: timeScale });
 
     // Initial sizing
     const width = containerRef.current.clientWidth;
@@ -204,9 +274,8 @@ const GaltonBoard: React.FC<GaltonBoardProps> = ({
 
     return () => {
       resizeObserver.disconnect();
-      Matter.Runner.stop(runner);
-      Matter.World.clear(engine.world, false);
-      Matter.Engine.clear(engine);
+      worker.terminate();
+      workerRef.current = null;
       if (animationFrameRef.current) cancelAnimationFrame(animationFrameRef.current);
     };
   }, []);
@@ -217,7 +286,7 @@ const GaltonBoard: React.FC<GaltonBoardProps> = ({
       
       const pixelRatio = window.devicePixelRatio || 1;
       
-      [staticCanvasRef.current, dynamicCanvasRef.current].forEach(canvas => {
+      [staticCanvasRef.current, heatmapCanvasRef.current, dynamicCanvasRef.current].forEach(canvas => {
           if (canvas) {
               canvas.width = dimensions.width * pixelRatio;
               canvas.height = dimensions.height * pixelRatio;
@@ -230,9 +299,9 @@ const GaltonBoard: React.FC<GaltonBoardProps> = ({
       });
 
       // Re-draw static elements whenever dimensions change
-      if (engineRef.current) {
-          drawStaticLayer();
-      }
+      drawStaticLayer();
+      drawHeatmapLayer();
+      if (replayRef.current) drawDynamicLayer();
       
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [dimensions]);
@@ -244,35 +313,151 @@ const GaltonBoard: React.FC<GaltonBoardProps> = ({
       if (dimensions.width === 0) return;
       setupStaticBoard();
       // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [resetTrigger, config, dimensions]); 
+  }, [resetTrigger, boardConfig, ballPhysics, dimensions]); 
 
   // 2. Fill Trigger: Spawn Balls
   useEffect(() => {
       if (fillTrigger > 0 && dimensions.width > 0) {
-          spawnBalls();
+          const { palette, colorIndices } = packQueue(ballQueue);
+          postCommand({ type: 'spawn', palette, colorIndices }, [colorIndices.buffer]);
       }
       // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [fillTrigger]);
 
+  // 3. Drop Trigger: Metered Release of the next few balls
+  useEffect(() => {
+      if (dropTrigger > 0) postCommand({ type: 'drop', count: dropCount });
+      // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [dropTrigger]);
+
+  // 4. Trace Triggers: follow a random waiting ball, or stop following
+  useEffect(() => {
+      if (traceTrigger > 0) postCommand({ type: 'traceRandom' });
+  }, [traceTrigger]);
+
+  useEffect(() => {
+      if (clearTraceTrigger === 0) return;
+      postCommand({ type: 'clearTrace' });
+      // Redraw right away, the render loop may not be running
+      traceRef.current = null;
+      drawDynamicLayer();
+      // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [clearTraceTrigger]);
+
   
+  // --- Worker Messages ---
+
+  // Only touches refs and state setters: bound once when the worker starts
+  const handleWorkerEvent = (message: WorkerEvent) => {
+      switch (message.type) {
+          case 'board':
+              staticBodiesRef.current = message.staticBodies;
+              pendingRebuildsRef.current = Math.max(0, pendingRebuildsRef.current - 1);
+              // A rebuilt board starts a new recording; hand over the finished one first
+              if (recordingRef.current) publishRecording();
+              recordingRef.current = null;
+              drawStaticLayer();
+              break;
+          case 'frame':
+              frameRef.current = message.frame;
+              recordFrame(message.frame);
+              if (showHeatmapRef.current && heatmapRef.current && pendingRebuildsRef.current === 0) {
+                  accumulateFrame(heatmapRef.current, message.frame, heatmapGroupRef.current);
+              }
+              break;
+          case 'trace': {
+              traceRef.current = message.trace;
+              const trace = message.trace;
+              const key = trace ? `${trace.decisions.length}/${trace.pegsHit}/${trace.bucket}/${trace.colorId}` : '';
+              if (key !== lastTraceKeyRef.current) {
+                  lastTraceKeyRef.current = key;
+                  onTraceChangeRef.current?.(trace);
+              }
+              break;
+          }
+          case 'stats': {
+              // A finished old board would otherwise report a completion for the new one
+              if (pendingRebuildsRef.current > 0) break;
+              const { activeCount, totalBalls, tally } = message.stats;
+              setActiveBallCount(activeCount);
+              setTotalBallCount(totalBalls);
+              setStepsPerSecond(message.stats.stepsPerSecond);
+              updateTally(tally, message.stats.elapsedMs);
+              // Triggered once when every ball has come to rest (in a bin or stuck)
+              if (message.stats.complete && !settledRef.current) {
+                  onCompleteRef.current({ elapsedMs: message.stats.elapsedMs, tally, stuck: message.stats.stuck, lost: message.stats.lost });
+              }
+              settledRef.current = message.stats.complete;
+              break;
+          }
+      }
+  };
+
+  // --- Recording ---
+
+  const publishRecording = () => {
+      const recording = recordingRef.current;
+      if (!recording || recording.frames.length === 0) return;
+      lastPublishRef.current = performance.now();
+      // Fresh object (and frame list) so the parent sees a change
+      onRecordingUpdateRef.current?.({ ...recording, frames: recording.frames.slice() });
+  };
+
+  const recordFrame = (frame: FrameData) => {
+      if (statusRef.current !== 'running' || recordingIntervalRef.current <= 0) return;
+      // Once everything has settled one more sample is enough
+      if (settledRef.current && lastSampleSettledRef.current) return;
+
+      if (!recordingRef.current) {
+          const { config: boardConfig, dimensions: boardDimensions } = boardContextRef.current;
+          recordingRef.current = createRecording(recordingIntervalRef.current, boardConfig, boardDimensions, staticBodiesRef.current);
+      }
+      if (!appendFrame(recordingRef.current, frame)) return;
+      lastSampleSettledRef.current = settledRef.current;
+
+      if (settledRef.current || performance.now() - lastPublishRef.current >= RECORDING_PUBLISH_MS) {
+          publishRecording();
+      }
+  };
+
   // --- CUSTOM RENDERING LOGIC ---
 
+  // Replays may come from a differently sized board; scale them to fit ours
+  const getReplayScale = (canvas: HTMLCanvasElement, recording: Recording) =>
+      canvas.width / (window.devicePixelRatio || 1) / recording.dimensions.width;
+
   const drawStaticLayer = () => {
     const canvas = staticCanvasRef.current;
-    if (!canvas || !engineRef.current) return;
+    if (!canvas) return;
     
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
     
     // Clear
     ctx.clearRect(0, 0, canvas.width / window.devicePixelRatio, canvas.height / window.devicePixelRatio);
+
+    const recording = replayRef.current;
+    const bodies = recording ? recording.staticBodies : staticBodiesRef.current;
+    ctx.save();
+    if (recording) {
+        const scale = getReplayScale(canvas, recording);
+        ctx.scale(scale, scale);
+    }
     
     // Draw all static bodies
-    staticBodiesRef.current.forEach(body => {
+    bodies.forEach(body => {
         ctx.beginPath();
         if (body.label === 'peg') {
-             const r = body.circleRadius || config.pegSize;
-             ctx.arc(body.position.x, body.position.y, r, 0, 2 * Math.PI);
+             if (body.radius) {
+                 ctx.arc(body.x, body.y, body.radius, 0, 2 * Math.PI);
+             } else {
+                 // Wedge pegs
+                 ctx.moveTo(body.vertices[0].x, body.vertices[0].y);
+                 for (let j = 1; j < body.vertices.length; j++) {
+                     ctx.lineTo(body.vertices[j].x, body.vertices[j].y);
+                 }
+                 ctx.closePath();
+             }
              ctx.fillStyle = '#334155';
              ctx.fill();
         } else if (body.label === 'funnel') {
@@ -289,9 +474,9 @@ const GaltonBoard: React.FC<GaltonBoardProps> = ({
                  ctx.fill();
                  ctx.stroke();
              }
-        } else if (body.label === 'bin' || body.label === 'floor') {
+        } else if (body.label === 'bin' || body.label === 'guide' || body.label === 'floor') {
              // Treat as vertices polygon
-             ctx.fillStyle = body.label === 'bin' ? '#cbd5e1' : 'transparent';
+             ctx.fillStyle = body.label === 'floor' ? 'transparent' : '#cbd5e1';
              if (body.vertices && body.vertices.length > 0) {
                  ctx.moveTo(body.vertices[0].x, body.vertices[0].y);
                  for (let j = 1; j < body.vertices.length; j++) {
@@ -302,11 +487,12 @@ const GaltonBoard: React.FC<GaltonBoardProps> = ({
              }
         }
     });
+    ctx.restore();
   };
 
   const drawDynamicLayer = () => {
       const canvas = dynamicCanvasRef.current;
-      if (!canvas || !engineRef.current) return;
+      if (!canvas) return;
       const ctx = canvas.getContext('2d');
       if (!ctx) return;
 
@@ -315,238 +501,122 @@ const GaltonBoard: React.FC<GaltonBoardProps> = ({
       const h = dimensions.height;
       ctx.clearRect(0, 0, w, h);
 
+      const recording = replayRef.current;
+      const frame = recording ? frameAt(recording, replayTimeRef.current) : frameRef.current;
+      if (!frame) return;
+
+      ctx.save();
+      if (recording) {
+          const scale = getReplayScale(canvas, recording);
+          ctx.scale(scale, scale);
+      }
+
       // 1. Draw Gates (Black)
       ctx.fillStyle = '#000000';
       ctx.beginPath();
-      
-      const drawBody = (b: Matter.Body | null) => {
-        if (b && b.vertices) {
-            ctx.moveTo(b.vertices[0].x, b.vertices[0].y);
-            for (let j = 1; j < b.vertices.length; j++) ctx.lineTo(b.vertices[j].x, b.vertices[j].y);
-        }
-      };
-
-      drawBody(leftGateRef.current);
-      drawBody(rightGateRef.current);
+      for (let g = 0; g < frame.gates.length; g += 8) {
+          ctx.moveTo(frame.gates[g], frame.gates[g + 1]);
+          for (let j = 2; j < 8; j += 2) ctx.lineTo(frame.gates[g + j], frame.gates[g + j + 1]);
+      }
       ctx.fill();
 
       // 2. Draw Balls using Cached Sprites (GPU Optimized)
-      // Use the direct ballsRef to avoid filtering all world bodies
-      const balls = ballsRef.current;
-      const spriteSize = (config.ballSize * 2) + 2;
-      const spriteOffset = spriteSize / 2;
-
-      for (let i = 0; i < balls.length; i++) {
-          const ball = balls[i];
-          const color = ball.render.fillStyle as string;
-          const sprite = spriteCacheRef.current[color];
-          
-          if (sprite) {
-              // drawImage is extremely fast on GPU
-              // Rounding positions can help crispness, but let's stick to sub-pixel for physics smoothness
-              ctx.drawImage(sprite, ball.position.x - spriteOffset, ball.position.y - spriteOffset, spriteSize, spriteSize);
-          } else {
-              // Fallback if sprite missing (should not happen)
-              ctx.fillStyle = color;
-              ctx.beginPath();
-              ctx.arc(ball.position.x, ball.position.y, config.ballSize, 0, 2 * Math.PI);
-              ctx.fill();
-          }
+      // Positions arrive as a packed buffer from the worker
+      const { positions, colorIndices, palette, radii, count } = frame;
+      // One sprite per palette entry, looked up once per frame
+      const sprites = palette.map((color, p) => getSprite(color, radii[p]));
+      const spriteSizes = radii.map(radius => (radius * 2) + 2);
+
+      for (let i = 0; i < count; i++) {
+          const x = positions[i * 2];
+          const y = positions[i * 2 + 1];
+          const p = colorIndices[i];
+          const spriteSize = spriteSizes[p];
+          const spriteOffset = spriteSize / 2;
+
+          // drawImage is extremely fast on GPU
+          // Rounding positions can help crispness, but let's stick to sub-pixel for physics smoothness
+          ctx.drawImage(sprites[p], x - spriteOffset, y - spriteOffset, spriteSize, spriteSize);
       }
-  };
-
-  // --- Board Setup Logic ---
-
-  const setupStaticBoard = () => {
-    if (!engineRef.current || dimensions.width === 0) return;
-    
-    const world = engineRef.current.world;
-    Matter.World.clear(world, false); // Keep engine, clear bodies
-    
-    staticBodiesRef.current = [];
-    ballsRef.current = []; // Clear direct ball reference
-    setFps(0);
-    setActiveBallCount(0);
 
-    const width = dimensions.width;
-    const height = dimensions.height;
-    
-    const layout = getLayoutMetrics(width, height, config);
-    const { funnelSlopeHeight, funnelNeckHeight, funnelExitY, pegStartY, binStartY, binHeight, spacingX, spacingY } = layout;
-
-    const { rowCount, bucketCount, pegSize, ballSize } = config;
-
-    // --- Funnel ---
-    // STRICT SINGLE FILE GAP for Normal Distribution
-    // Gap needs to be just slightly larger than 1 ball diameter (2 * radius)
-    // Ball diam = 2 * ballSize. Gap = 2.2 * 2 * ballSize approx?
-    const gap = Math.max(ballSize * 2.2, 5); 
-
-    const halfWidth = width / 2;
-    const tipXLeft = halfWidth - gap / 2;
-    const tipXRight = halfWidth + gap / 2;
-
-    // Merge Slope and Neck into single bodies to prevent cracks where balls get stuck.
-    
-    // Left Wall Body (Polygon)
-    // Vertices order: Top-Left -> Slope-Corner -> Neck-Bottom -> Wall-Bottom
-    const leftVerts = [
-        { x: 0, y: 0 }, 
-        { x: tipXLeft, y: funnelSlopeHeight }, 
-        { x: tipXLeft, y: funnelExitY }, 
-        { x: 0, y: funnelExitY }
-    ];
-    // Calculate centroid manually to ensure correct absolute positioning with fromVertices
-    const leftCentre = Matter.Vertices.centre(leftVerts);
-    const funnelLeft = Matter.Bodies.fromVertices(leftCentre.x, leftCentre.y, [leftVerts], {
-        isStatic: true, label: 'funnel', friction: 0, restitution: 0
-    });
+      // 3. Followed ball: its trail and a ring around where it is now
+      const trace = recording ? null : traceRef.current;
+      if (trace && trace.trail.length >= 2) {
+          const { trail } = trace;
+          ctx.strokeStyle = TRACE_COLOR;
+          ctx.lineWidth = 2;
+          ctx.lineJoin = 'round';
+          ctx.beginPath();
+          ctx.moveTo(trail[0], trail[1]);
+          for (let j = 2; j < trail.length; j += 2) ctx.lineTo(trail[j], trail[j + 1]);
+          ctx.stroke();
+
+          ctx.beginPath();
+          ctx.arc(trail[trail.length - 2], trail[trail.length - 1], trace.radius + 5, 0, Math.PI * 2);
+          ctx.stroke();
+      }
+      ctx.restore();
+  };
 
-    // Right Wall Body (Polygon)
-    const rightVerts = [
-        { x: width, y: 0 }, 
-        { x: width, y: funnelExitY }, 
-        { x: tipXRight, y: funnelExitY }, 
-        { x: tipXRight, y: funnelSlopeHeight }
-    ];
-    const rightCentre = Matter.Vertices.centre(rightVerts);
-    const funnelRight = Matter.Bodies.fromVertices(rightCentre.x, rightCentre.y, [rightVerts], {
-        isStatic: true, label: 'funnel', friction: 0, restitution: 0
-    });
+  const drawHeatmapLayer = () => {
+      const canvas = heatmapCanvasRef.current;
+      const ctx = canvas?.getContext('2d');
+      if (!canvas || !ctx) return;
+      ctx.clearRect(0, 0, dimensions.width, dimensions.height);
+      // Recordings carry no heatmap, so it's hidden during replays
+      if (showHeatmapRef.current && heatmapRef.current && !replayRef.current) drawHeatmap(ctx, heatmapRef.current);
+      lastHeatmapDrawRef.current = performance.now();
+  };
 
-    // --- Sliding Gates ---
-    const gateOverlap = 30;
-    const centerOverlap = 5; 
-    const gateWidth = (gap / 2) + gateOverlap; 
-    const gateHeight = 14;
-    // Position gate at the exit of the neck
-    const gateY = funnelExitY; 
-
-    // Initial Positions (Closed)
-    const leftGateX = (width / 2) - (gateWidth / 2) + centerOverlap;
-    const rightGateX = (width / 2) + (gateWidth / 2) - centerOverlap;
-
-    const leftGate = Matter.Bodies.rectangle(leftGateX, gateY, gateWidth, gateHeight, {
-        isStatic: true, label: 'gate',
-        render: { fillStyle: '#000000' },
-        friction: 0.1
-    });
-    
-    const rightGate = Matter.Bodies.rectangle(rightGateX, gateY, gateWidth, gateHeight, {
-        isStatic: true, label: 'gate',
-        render: { fillStyle: '#000000' },
-        friction: 0.1
-    });
+  // A new source (or turning the heatmap on, or regrouping the balls) starts counting from scratch
+  useEffect(() => {
+      showHeatmapRef.current = showHeatmap;
+      heatmapGroupRef.current = ballQueue.some(c => c.id === heatmapColorId) ? heatmapColorId : null;
+      const heatmap = heatmapRef.current;
+      if (heatmap) {
+          heatmap.counts.fill(0);
+          heatmap.max = 0;
+      }
+      drawHeatmapLayer();
+      // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [showHeatmap, heatmapColorId, ballQueue]);
 
-    leftGateRef.current = leftGate;
-    rightGateRef.current = rightGate;
+  // --- Board Setup Logic ---
 
-    // --- Pegs ---
-    const pegs: Matter.Body[] = [];
-    const colsPerRow = bucketCount + 2; 
-    
-    for (let row = 0; row < rowCount; row++) {
-      const y = pegStartY + row * spacingY;
-      const isOddRow = row % 2 !== 0;
-      const maxOffset = Math.floor(colsPerRow / 2);
-      
-      for (let i = -maxOffset; i <= maxOffset; i++) {
-        let xOffset = i * spacingX;
-        if (isOddRow) xOffset += spacingX / 2; 
-        
-        const x = width / 2 + xOffset;
-        if (x > -20 && x < width + 20) {
-             const circle = Matter.Bodies.circle(x, y, pegSize, {
-                isStatic: true, 
-                label: 'peg', 
-                friction: 0.001, // Slight friction to aid rolling
-                restitution: config.ballRestitution
-              });
-              pegs.push(circle);
-        }
-      }
-    }
+  const setupStaticBoard = () => {
+    if (dimensions.width === 0) return;
 
-    // --- Bins ---
-    const bins: Matter.Body[] = [];
-    const totalBinWidth = bucketCount * spacingX;
-    const binAreaStartX = (width / 2) - (totalBinWidth / 2);
-    const validBinHeight = Math.max(1, binHeight);
-    const binCenterY = binStartY + (validBinHeight / 2);
-    
-    for (let i = 0; i <= bucketCount; i++) {
-        const divX = binAreaStartX + (i * spacingX);
-        const divider = Matter.Bodies.rectangle(divX, binCenterY, 4, validBinHeight, { 
-                isStatic: true, label: 'bin', chamfer: { radius: 2 }, friction: 0
-        });
-        bins.push(divider);
-    }
-    
-    const floor = Matter.Bodies.rectangle(width/2, height + 50, width * 2, 100, { isStatic: true, label: 'floor', friction: 0 });
+    // The worker answers with the new static outlines and a fresh frame
+    frameRef.current = null;
+    boardContextRef.current = { config, dimensions };
+    settledRef.current = false;
+    lastSampleSettledRef.current = false;
+    pendingRebuildsRef.current++;
+    postCommand({ type: 'rebuild', config, dimensions, gateOpen: isGateOpen, ballPhysics });
 
-    const staticBodies = [...pegs, ...bins, funnelLeft, funnelRight, floor];
-    staticBodiesRef.current = staticBodies;
+    setFps(0);
+    setStepsPerSecond(0);
+    setActiveBallCount(0);
+    setTotalBallCount(0);
+    updateTally({ total: new Array(config.bucketCount).fill(0), byColor: {} }, 0);
 
-    Matter.World.add(world, [...staticBodies, leftGate, rightGate]);
+    heatmapRef.current = createHeatmap(dimensions.width, getLayoutMetrics(dimensions.width, dimensions.height, config));
+    drawHeatmapLayer();
     
-    // Trigger static draw
-    drawStaticLayer();
     // Clear dynamic layer (fix for Reset)
     drawDynamicLayer();
   };
 
-  // Spawn Balls
-  const spawnBalls = () => {
-      if (!engineRef.current || dimensions.width === 0) return;
-      const width = dimensions.width;
-      const height = dimensions.height;
-      
-      // Use ref if available, else calc
-      const layout = layoutRef.current || getLayoutMetrics(width, height, config);
-      const { funnelSlopeHeight } = layout;
-      const { ballSize } = config;
-
-      const ballBodyRadius = ballSize;
-      const ballSpacing = ballBodyRadius * 2.2;
-      const ballsPerRow = Math.max(1, Math.floor(width / ballSpacing) - 2); 
-
-      const newBalls = ballQueue.map((color, i) => {
-            const col = i % ballsPerRow;
-            const row = Math.floor(i / ballsPerRow);
-            
-            const rowWidth = ballsPerRow * ballSpacing;
-            const startX = (width - rowWidth) / 2;
-            
-            // Spawn above the funnel slope
-            const x = startX + (col * ballSpacing) + (Math.random() - 0.5) * 6;
-            const y = funnelSlopeHeight - 50 - (row * ballSpacing * 1.1) - (Math.random() * 50);
-
-            return Matter.Bodies.circle(x, y, ballSize, {
-                label: 'ball',
-                restitution: 0, 
-                friction: config.ballFriction, // Configurable Friction
-                frictionAir: 0.005, 
-                density: 0.004,
-                sleepThreshold: 30, // Default is 60, lower means they sleep sooner
-                render: { fillStyle: color.color }
-            });
-        });
-      
-      // Update persistent ref
-      ballsRef.current = [...ballsRef.current, ...newBalls];
-      Matter.World.add(engineRef.current.world, newBalls);
-  };
-
   // Simulation Loop
+  // Keeps going while paused so single steps show up, but then only redraws new frames
   useEffect(() => {
-    if (status !== 'running') {
+    if (status !== 'running' && status !== 'paused') {
         if (animationFrameRef.current) cancelAnimationFrame(animationFrameRef.current);
         return;
     }
+    lastDrawnFrameRef.current = null;
 
     const loop = (time: number) => {
-      if (status !== 'running') return;
-
       // FPS Calc
       if (time - fpsRef.current.startTime > 500) {
           const delta = time - fpsRef.current.startTime;
@@ -563,113 +633,13 @@ const GaltonBoard: React.FC<GaltonBoardProps> = ({
       }
       fpsRef.current.frameCount++;
 
-
-      if (engineRef.current && dimensions.width > 0) {
-         drawDynamicLayer();
-
-         // OPTIMIZATION: Use cached layout
-         const layout = layoutRef.current || getLayoutMetrics(dimensions.width, dimensions.height, config);
-         
-         // --- Gate Animation ---
-         if (leftGateRef.current && rightGateRef.current) {
-             const isOpen = isGateOpenRef.current;
-             // Gap matches static setup logic for water tight seal
-             const ballSize = config.ballSize;
-             const gap = Math.max(ballSize * 2.2, 5);
-             
-             const gateOverlap = 30; 
-             const centerOverlap = 5;
-             const gateWidth = (gap / 2) + gateOverlap;
-             const width = dimensions.width;
-             const center = width / 2;
-             
-             // Targets
-             const closedLeftX = center - (gateWidth / 2) + centerOverlap;
-             const closedRightX = center + (gateWidth / 2) - centerOverlap;
-             
-             const slideDist = gateWidth + 5;
-             const openLeftX = closedLeftX - slideDist;
-             const openRightX = closedRightX + slideDist;
-             
-             const targetLeftX = isOpen ? openLeftX : closedLeftX;
-             const targetRightX = isOpen ? openRightX : closedRightX;
-             
-             const currentLeft = leftGateRef.current.position.x;
-             const currentRight = rightGateRef.current.position.x;
-             
-             const t = 0.2;
-             
-             const newLeftX = currentLeft + (targetLeftX - currentLeft) * t;
-             const newRightX = currentRight + (targetRightX - currentRight) * t;
-             
-             Matter.Body.setPosition(leftGateRef.current, { x: newLeftX, y: leftGateRef.current.position.y });
-             Matter.Body.setPosition(rightGateRef.current, { x: newRightX, y: rightGateRef.current.position.y });
-         }
-
-
-         // --- Ball Physics Adjustments ---
-         // OPTIMIZATION: Iterate persistent array
-         const balls = ballsRef.current;
-         let activeCount = 0;
-         let totalBalls = balls.length;
-         
-         // Pre-calculate constants for loop
-         const binLimit = layout.binStartY - 10;
-         const funnelLimit = layout.funnelExitY + 10;
-         const restitution = config.ballRestitution;
-         const friction = config.ballFriction;
-         const gateOpen = isGateOpenRef.current;
-         const binStartY = layout.binStartY;
-
-         for (let i = 0; i < totalBalls; i++) {
-             const ball = balls[i];
-             
-             // CRITICAL: Force wake up balls if the gate is open and they are above the bins
-             if (gateOpen && ball.position.y < binStartY) {
-                 if (ball.isSleeping) {
-                     Matter.Sleeping.set(ball, false);
-                 }
-             }
-             
-             // Dynamic Friction update
-             if (ball.friction !== friction) {
-                 ball.friction = friction;
-             }
-
-             if (ball.isSleeping) continue;
-             
-             activeCount++;
-             
-             const y = ball.position.y;
-
-             // Reduce bounce in funnel and bins
-             if (y < funnelLimit) {
-                 if (ball.restitution !== 0.1) ball.restitution = 0.1; // Small damping
-             } else if (y > binLimit) {
-                 if (ball.restitution !== 0) ball.restitution = 0;
-             } else {
-                 if (ball.restitution !== restitution) ball.restitution = restitution;
-             }
-             
-             // Anti-jamming: slight noise for almost stopped balls in funnel
-             if (gateOpen && y < funnelLimit && ball.speed < 0.1 && Math.random() < 0.05) {
-                 Matter.Body.applyForce(ball, ball.position, { x: (Math.random() - 0.5) * 0.0001, y: 0 });
-             }
-         }
-         
-         if (time - lastStateUpdateRef.current < 10) { 
-             setActiveBallCount(activeCount);
-         }
-
-         if (totalBalls > 0) {
-             if (activeCount === 0 && totalBalls === config.ballCount) {
-                  onCompleteRef.current();
-             } else {
-                 if (activeCount === 0) {
-                     onCompleteRef.current();
-                 }
-             }
-         }
+      // The replay loop owns the canvas while a recording is shown
+      if (!replayRef.current && (status === 'running' || frameRef.current !== lastDrawnFrameRef.current)) {
+          drawDynamicLayer();
+          lastDrawnFrameRef.current = frameRef.current;
+      }
+      if (showHeatmapRef.current && !replayRef.current && time - lastHeatmapDrawRef.current >= HEATMAP_REDRAW_MS) {
+          drawHeatmapLayer();
       }
       animationFrameRef.current = requestAnimationFrame(loop);
     };
@@ -680,15 +650,203 @@ const GaltonBoard: React.FC<GaltonBoardProps> = ({
     };
   }, [status, dimensions, config]); 
 
+  // --- Replay ---
+
+  const setPlaying = (playing: boolean) => {
+    replayPlayingRef.current = playing;
+    setReplayPlaying(playing);
+  };
+
+  const seekReplay = (timeMs: number) => {
+    replayTimeRef.current = timeMs;
+    setReplayTime(timeMs);
+  };
+
+  const changeReplaySpeed = (speed: number) => {
+    replaySpeedRef.current = speed;
+    setReplaySpeed(speed);
+  };
+
+  const toggleReplay = () => {
+    if (!replay) return;
+    // Play from the start again once the end is reached
+    if (!replayPlayingRef.current && replayTimeRef.current >= getDuration(replay)) seekReplay(0);
+    setPlaying(!replayPlayingRef.current);
+  };
+
+  // Entering or leaving a replay swaps what both canvases show
+  useEffect(() => {
+    replayRef.current = replay;
+    seekReplay(0);
+    setPlaying(replay !== null);
+    drawStaticLayer();
+    drawHeatmapLayer();
+    drawDynamicLayer();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [replay]);
+
+  // Playback loop: advances the replay clock and draws recorded frames, the engine is untouched
+  useEffect(() => {
+    if (!replay) return;
+    const duration = getDuration(replay);
+    let last = performance.now();
+    let lastUiUpdate = 0;
+
+    const loop = (time: number) => {
+      const delta = Math.max(0, time - last);
+      last = time;
+      if (replayPlayingRef.current) {
+        replayTimeRef.current = Math.min(duration, replayTimeRef.current + delta * replaySpeedRef.current);
+        if (replayTimeRef.current >= duration) setPlaying(false);
+      }
+      // The scrubber doesn't need every frame
+      if (time - lastUiUpdate > 100) {
+        setReplayTime(replayTimeRef.current);
+        lastUiUpdate = time;
+      }
+      drawDynamicLayer();
+      replayFrameId = requestAnimationFrame(loop);
+    };
+
+    let replayFrameId = requestAnimationFrame(loop);
+    return () => cancelAnimationFrame(replayFrameId);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [replay, dimensions]);
+
+  // Expected share per bucket for the current row count
+  const expectedProbabilities = useMemo(
+      () => expectedBucketProbabilities(config.rowCount, config.bucketCount, config.rightProbability, config.rowOffset),
+      [config.rowCount, config.bucketCount, config.rightProbability, config.rowOffset]
+  );
+
+  // Stack landed counts by color, in the order the colors appear in the queue
+  const colorSeries = useMemo(() => {
+      const seen = new Map<string, BallColor>();
+      ballQueue.forEach(c => { if (!seen.has(c.id)) seen.set(c.id, c); });
+      return Array.from(seen.values())
+          .filter(c => tally.byColor[c.id])
+          .map(c => ({ color: c.color, counts: tally.byColor[c.id] }));
+  }, [ballQueue, tally]);
+
+  // --- Capture (PNG snapshot / WebM clip) ---
+
+  const buildCaption = () => {
+      const observed = describeDistribution(tally.total);
+      const fit = chiSquareGoodnessOfFit(tally.total, expectedProbabilities);
+      const expected = describeDistribution(expectedProbabilities);
+      const parts = [`Rows ${config.rowCount}`, `Buckets ${config.bucketCount}`, `Seed ${config.seed}`];
+      if (observed) {
+          parts.push(`n = ${observed.count}`);
+          parts.push(`mean ${observed.mean.toFixed(2)}${expected ? ` (exp. ${expected.mean.toFixed(2)})` : ''}`);
+          parts.push(`sd ${observed.standardDeviation.toFixed(2)}`);
+      }
+      if (fit) parts.push(`χ² p = ${formatPValue(fit.pValue)}`);
+      return parts.join('  ·  ');
+  };
+
+  const buildCaptureScene = (): CaptureScene | null => {
+      const staticCanvas = staticCanvasRef.current;
+      const dynamicCanvas = dynamicCanvasRef.current;
+      if (!staticCanvas || !dynamicCanvas || dimensions.width === 0) return null;
+      return {
+          width: dimensions.width,
+          height: dimensions.height,
+          background: BOARD_BACKGROUND,
+          layers: showHeatmap && heatmapCanvasRef.current && !replay
+              ? [staticCanvas, heatmapCanvasRef.current, dynamicCanvas]
+              : [staticCanvas, dynamicCanvas],
+          layout: getLayoutMetrics(dimensions.width, dimensions.height, config),
+          labels: bucketLabels,
+          // The live histogram is hidden during replays, so leave it out of those captures too
+          histogram: captureOptions.histogram && !replay
+              ? { counts: tally.total, series: colorSeries, expected: expectedProbabilities }
+              : undefined,
+          caption: captureOptions.caption && !replay ? buildCaption() : undefined
+      };
+  };
+
+  // The video loop runs across renders and always wants the latest scene
+  const buildCaptureSceneRef = useRef(buildCaptureScene);
+  useEffect(() => {
+      buildCaptureSceneRef.current = buildCaptureScene;
+  });
+
+  useEffect(() => {
+      if (captureTrigger === 0) return;
+      const scene = buildCaptureScene();
+      if (!scene) return;
+      captureToPng(scene)
+          .then(blob => downloadFile(`${timestampedName('galton')}.png`, blob, 'image/png'))
+          .catch(err => console.error('Snapshot failed', err));
+      // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [captureTrigger]);
+
+  const videoCaptureRef = useRef<VideoCapture | null>(null);
+
+  useEffect(() => {
+      if (!isRecordingVideo) return;
+      try {
+          videoCaptureRef.current = startVideoCapture(() => buildCaptureSceneRef.current());
+      } catch (err) {
+          console.error('Video capture failed', err);
+          return;
+      }
+      return () => {
+          const capture = videoCaptureRef.current;
+          videoCaptureRef.current = null;
+          capture?.stop()
+              .then(blob => downloadFile(`${timestampedName('galton')}.webm`, blob, 'video/webm'))
+              .catch(err => console.error('Video capture failed', err));
+      };
+  }, [isRecordingVideo]);
+
+  const renderHistogram = () => {
+      if (dimensions.width === 0) return null;
+      const layout = getLayoutMetrics(dimensions.width, dimensions.height, config);
+      const labelRowHeight = 40;
+
+      return (
+        <BucketHistogram
+            counts={tally.total}
+            series={colorSeries}
+            expected={expectedProbabilities}
+            binAreaStartX={layout.binAreaStartX}
+            spacingX={layout.spacingX}
+            top={layout.binStartY}
+            height={layout.binHeight - labelRowHeight}
+        />
+      );
+  };
+
+  // Editing starts from whatever is on the board, the generated grid included
+  const { rowCount, bucketCount, pegArrangement, pegSize, ballSize, rowOffset, pegLayout } = config;
+  const editablePegs = useMemo(() => {
+      if (dimensions.width === 0) return [];
+      const layoutConfig: LayoutConfig = { rowCount, bucketCount, pegArrangement, pegSize, ballSize, rowOffset, pegLayout };
+      const layout = getLayoutMetrics(dimensions.width, dimensions.height, layoutConfig);
+      return getPegPositions(dimensions, layout, layoutConfig)
+          .map(p => ({ x: p.x / dimensions.width, y: p.y / dimensions.height }));
+  }, [dimensions, rowCount, bucketCount, pegArrangement, pegSize, ballSize, rowOffset, pegLayout]);
+
+  const renderPegEditor = () => {
+      if (!isEditingPegs || replay || dimensions.width === 0) return null;
+      const layout = getLayoutMetrics(dimensions.width, dimensions.height, config);
+      return (
+        <PegEditor
+            pegs={editablePegs}
+            dimensions={dimensions}
+            pegSize={config.pegSize}
+            minY={layout.funnelExitY + config.pegSize + 10}
+            maxY={layout.binStartY - config.pegSize - 2}
+            onChange={(pegs) => onPegLayoutChange?.(pegs)}
+        />
+      );
+  };
+
   const renderLabels = () => {
       if (dimensions.width === 0) return null;
       const layout = getLayoutMetrics(dimensions.width, dimensions.height, config);
-      const { spacingX } = layout;
-      const { bucketCount } = config;
-      const width = dimensions.width;
-      
-      const totalBinWidth = bucketCount * spacingX;
-      const binStartX = (width / 2) - (totalBinWidth / 2);
+      const { spacingX, binAreaStartX: binStartX } = layout;
 
       return (
         <div className="absolute bottom-0 left-0 w-full h-[40px] pointer-events-none z-10">
@@ -712,21 +870,55 @@ const GaltonBoard: React.FC<GaltonBoardProps> = ({
       );
   };
 
+  // Clicking a ball follows it (live physics runs only)
+  const canPickBall = !!onTraceChange && !replay && !isEditingPegs && config.simulationMode === 'physics';
+  const handleBoardClick = (e: React.MouseEvent<HTMLDivElement>) => {
+      if (!canPickBall) return;
+      if ((e.target as HTMLElement).tagName === 'INPUT') return; // Bucket label editing
+      const rect = e.currentTarget.getBoundingClientRect();
+      postCommand({ type: 'traceAt', x: e.clientX - rect.left, y: e.clientY - rect.top });
+  };
+
   return (
-    <div className="w-full h-full relative bg-[#eaddcf] isolate overflow-hidden" ref={containerRef}>
+    <div
+      className="w-full h-full relative bg-[#eaddcf] isolate overflow-hidden"
+      ref={containerRef}
+      onClick={handleBoardClick}
+      // Two quick clicks to pick a ball mustn't reach the canvas area's double-click reset
+      onDoubleClick={canPickBall ? (e) => e.stopPropagation() : undefined}
+    >
        <canvas 
          ref={staticCanvasRef} 
          className="absolute inset-0 z-0 pointer-events-none" 
        />
+       <canvas
+         ref={heatmapCanvasRef}
+         className="absolute inset-0 z-0 pointer-events-none"
+       />
        <canvas 
          ref={dynamicCanvasRef} 
          className="absolute inset-0 z-1 pointer-events-none" 
        />
+       {!replay && renderHistogram()}
        {renderLabels()}
-       <div className="absolute top-2 left-2 text-xs text-slate-600 font-mono pointer-events-none select-none z-20 font-bold bg-white/80 p-2 rounded backdrop-blur-sm border border-white/50 shadow-sm">
-          <div>FPS: {fps}</div>
-          <div>Balls: {activeBallCount} / {ballsRef.current.length}</div>
-       </div>
+       {renderPegEditor()}
+       {replay && (
+         <ReplayBar
+            time={replayTime}
+            duration={getDuration(replay)}
+            playing={replayPlaying}
+            speed={replaySpeed}
+            onTogglePlay={toggleReplay}
+            onSeek={seekReplay}
+            onSpeedChange={changeReplaySpeed}
+            onExit={() => onExitReplay?.()}
+         />
+       )}
+       {!replay && <div className="absolute top-2 left-2 text-xs text-slate-600 font-mono pointer-events-none select-none z-20 font-bold bg-white/80 p-2 rounded backdrop-blur-sm border border-white/50 shadow-sm">
+          <div>FPS: {fps} render / {stepsPerSecond} physics</div>
+          <div>Balls: {activeBallCount} / {totalBallCount}</div>
+          <div>Landed: {tally.total.reduce((acc, c) => acc + c, 0)}</div>
+       </div>}
     </div>
   );
 };
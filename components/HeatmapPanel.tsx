@@ -0,0 +1,63 @@
+import React from 'react';
+import { BallDefinition } from '../types';
+import { HEATMAP_RAMP } from '../utils/heatmap';
+
+interface HeatmapPanelProps {
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  colorId: string | null; // null = all balls
+  onColorIdChange: (colorId: string | null) => void;
+  ballDefinitions: BallDefinition[];
+}
+
+const LEGEND_GRADIENT = `linear-gradient(to right, ${HEATMAP_RAMP.map(([r, g, b]) => `rgb(${r}, ${g}, ${b})`).join(', ')})`;
+
+/** Toggle and source for the ball traffic heatmap drawn under the balls. */
+const HeatmapPanel: React.FC<HeatmapPanelProps> = ({ enabled, onEnabledChange, colorId, onColorIdChange, ballDefinitions }) => {
+  const groups = ballDefinitions.filter(def => def.count > 0);
+
+  return (
+    <section>
+      <h2 className="text-sm uppercase tracking-wide text-slate-500 font-bold mb-4">Traffic Heatmap</h2>
+
+      <div className="space-y-3">
+        <label className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={enabled}
+            onChange={(e) => onEnabledChange(e.target.checked)}
+            className="accent-indigo-600"
+          />
+          Show where balls spend their time
+        </label>
+
+        <select
+          value={groups.some(def => def.color.id === colorId) ? colorId : ''}
+          onChange={(e) => onColorIdChange(e.target.value === '' ? null : e.target.value)}
+          disabled={!enabled}
+          className="w-full bg-white border border-slate-300 rounded px-2 py-1 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none disabled:opacity-50"
+        >
+          <option value="">All balls</option>
+          {groups.map(def => (
+            <option key={def.color.id} value={def.color.id}>{def.color.name}</option>
+          ))}
+        </select>
+
+        {enabled && (
+          <div>
+            <div className="h-2 rounded" style={{ background: LEGEND_GRADIENT }} />
+            <div className="flex justify-between text-xs text-slate-400 mt-1">
+              <span>Rarely visited</span>
+              <span>Jammed</span>
+            </div>
+          </div>
+        )}
+        <p className="text-xs text-slate-400">
+          Counts ball positions below the funnel from the moment it is switched on or the source changes; Reset starts it over.
+        </p>
+      </div>
+    </section>
+  );
+};
+
+export default HeatmapPanel;
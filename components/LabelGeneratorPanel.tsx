@@ -0,0 +1,157 @@
+import React, { useState, useMemo } from 'react';
+import { Wand2, RotateCcw } from 'lucide-react';
+import { SimulationConfig } from '../types';
+import {
+  LabelMode,
+  LabelGeneratorOptions,
+  BucketLabeling,
+  DEFAULT_LABEL_OPTIONS,
+  generateBucketLabels
+} from '../utils/bucketLabels';
+
+interface LabelGeneratorPanelProps {
+  config: SimulationConfig;
+  values: number[] | null; // Resolved numeric value per bucket, null while any bucket lacks one
+  onApply: (labeling: BucketLabeling) => void;
+}
+
+const MODES: { mode: LabelMode; name: string; title: string }[] = [
+  { mode: 'range', name: 'Ranges', title: 'Numeric bins from a start value and a step, e.g. heights 60–64, 65–69, ...' },
+  { mode: 'zScore', name: 'Z-scores', title: 'Distance of each bucket from the expected centre, in standard deviations' },
+  { mode: 'categories', name: 'Categories', title: 'Grades or categories spread evenly from left to right' },
+  { mode: 'list', name: 'List', title: 'One label per bucket, pasted from a spreadsheet' },
+];
+
+const PREVIEW_COUNT = 6;
+
+/** Relabels every bucket at once, instead of one label input at a time under the board. */
+const LabelGeneratorPanel: React.FC<LabelGeneratorPanelProps> = ({ config, values, onApply }) => {
+  const [options, setOptions] = useState<LabelGeneratorOptions>(DEFAULT_LABEL_OPTIONS);
+  // Start and step as typed, so "0.05" or "-2" can be entered; the options take each valid value
+  const [rangeText, setRangeText] = useState({ start: String(DEFAULT_LABEL_OPTIONS.start), step: String(DEFAULT_LABEL_OPTIONS.step) });
+  const preview = useMemo(() => generateBucketLabels(options, config), [options, config]);
+
+  const handleRangeChange = (key: 'start' | 'step', text: string) => {
+    setRangeText(prev => ({ ...prev, [key]: text }));
+    const value = parseFloat(text);
+    if (Number.isFinite(value) && (key === 'start' || value > 0)) setOptions(prev => ({ ...prev, [key]: value }));
+  };
+  // Leaving a field shows the value actually in use
+  const handleRangeBlur = () => setRangeText({ start: String(options.start), step: String(options.step) });
+
+  const inputClass = 'w-full bg-white border border-slate-300 rounded px-2 py-1 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none';
+  const buttonClass = 'flex-1 flex items-center justify-center gap-1.5 px-2 py-1.5 text-xs font-medium rounded-md border border-slate-300 text-slate-700 hover:bg-slate-50 transition-colors';
+
+  const shown = preview.labels.slice(0, PREVIEW_COUNT).join(', ');
+  const more = preview.labels.length > PREVIEW_COUNT ? `, … ${preview.labels[preview.labels.length - 1]}` : '';
+
+  return (
+    <section>
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-sm uppercase tracking-wide text-slate-500 font-bold">Bucket Labels</h2>
+        <div
+          className={`text-xs font-semibold px-2 py-1 rounded ${values ? 'bg-emerald-50 text-emerald-700' : 'bg-slate-100 text-slate-500'}`}
+          title={values ? 'Statistics and exports use the label values' : 'Statistics and exports use bucket numbers 1..N'}
+        >
+          {values ? 'Numeric values' : 'Bucket numbers'}
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <div className="grid grid-cols-4 gap-1">
+          {MODES.map(({ mode, name, title }) => (
+            <button
+              key={mode}
+              onClick={() => setOptions(prev => ({ ...prev, mode }))}
+              className={`px-1 py-1.5 text-xs font-medium rounded-md border transition-colors ${
+                options.mode === mode
+                  ? 'bg-indigo-600 border-indigo-600 text-white'
+                  : 'bg-white border-slate-300 text-slate-700 hover:bg-slate-50'
+              }`}
+              title={title}
+            >
+              {name}
+            </button>
+          ))}
+        </div>
+
+        {options.mode === 'range' && (
+          <div className="grid grid-cols-2 gap-2">
+            <label className="text-xs text-slate-500">
+              Start
+              <input
+                type="number" step="any"
+                value={rangeText.start}
+                onChange={(e) => handleRangeChange('start', e.target.value)}
+                onBlur={handleRangeBlur}
+                className={inputClass}
+              />
+            </label>
+            <label className="text-xs text-slate-500">
+              Step
+              <input
+                type="number" min="0" step="any"
+                value={rangeText.step}
+                onChange={(e) => handleRangeChange('step', e.target.value)}
+                onBlur={handleRangeBlur}
+                className={inputClass}
+              />
+            </label>
+          </div>
+        )}
+
+        {options.mode === 'zScore' && (
+          <p className="text-xs text-slate-400">
+            Centred on the expected mean for {config.rowCount} rows at p = {config.rightProbability}.
+          </p>
+        )}
+
+        {options.mode === 'categories' && (
+          <label className="block text-xs text-slate-500">
+            Categories, left to right (optionally "name=value")
+            <input
+              type="text"
+              value={options.categories}
+              onChange={(e) => setOptions(prev => ({ ...prev, categories: e.target.value }))}
+              className={inputClass}
+            />
+          </label>
+        )}
+
+        {options.mode === 'list' && (
+          <label className="block text-xs text-slate-500">
+            One label per line (optionally "label=value")
+            <textarea
+              value={options.list}
+              onChange={(e) => setOptions(prev => ({ ...prev, list: e.target.value }))}
+              rows={4}
+              className={`${inputClass} font-mono text-xs`}
+            />
+          </label>
+        )}
+
+        <div className="bg-slate-50 rounded-lg border border-slate-200 px-3 py-2 text-xs font-mono text-slate-600 truncate" title={preview.labels.join(', ')}>
+          {shown}{more}
+        </div>
+
+        <div className="flex gap-2">
+          <button onClick={() => onApply(preview)} className={buttonClass}>
+            <Wand2 className="w-3.5 h-3.5" /> Apply to {config.bucketCount} buckets
+          </button>
+          <button
+            onClick={() => onApply(generateBucketLabels({ ...options, mode: 'list', list: '' }, config))}
+            className={buttonClass}
+            title="Back to the default 1..N numbering"
+          >
+            <RotateCcw className="w-3.5 h-3.5" /> Reset to 1..N
+          </button>
+        </div>
+        <p className="text-xs text-slate-400">
+          Labels that read as numbers or ranges ("62", "60–64") carry a value, so the statistics and exports can give the mean in real units.
+        </p>
+      </div>
+    </section>
+  );
+};
+
+export default LabelGeneratorPanel;
@@ -0,0 +1,150 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { PegPosition } from '../types';
+import { BoardDimensions } from '../simulation/layout';
+
+interface PegEditorProps {
+  pegs: PegPosition[]; // Normalized board coordinates
+  dimensions: BoardDimensions;
+  pegSize: number;
+  minY: number; // Pixel band pegs may be placed in: below the funnel, above the bins
+  maxY: number;
+  onChange: (pegs: PegPosition[]) => void;
+}
+
+// Pegs closer than this (px) vertically count as one row
+const ROW_TOLERANCE = 2;
+// New pegs within this distance (px) of a row snap onto it
+const ROW_SNAP = 8;
+// Pointer travel (px) that turns a click on a peg into a drag
+const DRAG_THRESHOLD = 3;
+
+interface DragState {
+  index: number;
+  startX: number;
+  startY: number;
+  moved: boolean;
+}
+
+/**
+ * Edit-mode overlay for the peg layout. Click empty space to add a peg, click a peg
+ * to remove it, drag a peg to move it, or use the × beside a row to delete the row.
+ * Changes are committed on pointer up, so the board is only rebuilt once per edit.
+ */
+const PegEditor: React.FC<PegEditorProps> = ({ pegs, dimensions, pegSize, minY, maxY, onChange }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+  const [draft, setDraft] = useState(pegs);
+
+  useEffect(() => {
+    setDraft(pegs);
+  }, [pegs]);
+
+  const { width, height } = dimensions;
+  const toPixels = (p: PegPosition) => ({ x: p.x * width, y: p.y * height });
+  const hitRadius = Math.max(pegSize, 6) + 2;
+
+  // Distinct row heights, top to bottom
+  const rows: number[] = [];
+  draft
+    .map(p => p.y * height)
+    .sort((a, b) => a - b)
+    .forEach(y => {
+      if (rows.length === 0 || y - rows[rows.length - 1] > ROW_TOLERANCE) rows.push(y);
+    });
+
+  const pointerPosition = (event: React.PointerEvent) => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    const x = Math.min(width - pegSize, Math.max(pegSize, event.clientX - rect.left));
+    const y = Math.min(maxY, Math.max(minY, event.clientY - rect.top));
+    return { x, y };
+  };
+
+  const normalize = (x: number, y: number): PegPosition => ({ x: x / width, y: y / height });
+
+  const handlePegDown = (event: React.PointerEvent, index: number) => {
+    event.stopPropagation();
+    svgRef.current?.setPointerCapture(event.pointerId);
+    dragRef.current = { index, startX: event.clientX, startY: event.clientY, moved: false };
+  };
+
+  const handleBoardDown = (event: React.PointerEvent) => {
+    const { x, y } = pointerPosition(event);
+    const nearestRow = rows.find(rowY => Math.abs(rowY - y) <= ROW_SNAP);
+    const next = [...draft, normalize(x, nearestRow ?? y)];
+    setDraft(next);
+    onChange(next);
+  };
+
+  const handleMove = (event: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    if (!drag.moved && Math.hypot(event.clientX - drag.startX, event.clientY - drag.startY) < DRAG_THRESHOLD) return;
+    drag.moved = true;
+    const { x, y } = pointerPosition(event);
+    setDraft(prev => prev.map((p, i) => (i === drag.index ? normalize(x, y) : p)));
+  };
+
+  const handleUp = () => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    dragRef.current = null;
+    if (drag.moved) {
+      onChange(draft);
+    } else {
+      // A click without dragging removes the peg
+      const next = draft.filter((_, i) => i !== drag.index);
+      setDraft(next);
+      onChange(next);
+    }
+  };
+
+  const deleteRow = (rowY: number) => {
+    const next = draft.filter(p => Math.abs(p.y * height - rowY) > ROW_TOLERANCE);
+    setDraft(next);
+    onChange(next);
+  };
+
+  return (
+    <svg
+      ref={svgRef}
+      className="absolute inset-0 z-[15] cursor-crosshair touch-none"
+      width={width}
+      height={height}
+      onPointerDown={handleBoardDown}
+      onPointerMove={handleMove}
+      onPointerUp={handleUp}
+      onPointerCancel={handleUp}
+      onDoubleClick={(e) => e.stopPropagation()} // Don't let the board's double-click reset fire
+    >
+      {/* Editable band */}
+      <rect
+        x={0} y={minY} width={width} height={Math.max(0, maxY - minY)}
+        fill="rgba(79, 70, 229, 0.06)" stroke="rgba(79, 70, 229, 0.4)" strokeDasharray="6 4"
+      />
+
+      {draft.map((peg, i) => {
+        const { x, y } = toPixels(peg);
+        return (
+          <g key={i} onPointerDown={(e) => handlePegDown(e, i)} className="cursor-move">
+            <circle cx={x} cy={y} r={hitRadius} fill="transparent" />
+            <circle cx={x} cy={y} r={pegSize} fill="rgba(79, 70, 229, 0.5)" stroke="#4f46e5" strokeWidth={1.5} />
+          </g>
+        );
+      })}
+
+      {rows.map(rowY => (
+        <g
+          key={rowY}
+          onPointerDown={(e) => { e.stopPropagation(); deleteRow(rowY); }}
+          className="cursor-pointer"
+        >
+          <title>Delete this row</title>
+          <circle cx={10} cy={rowY} r={7} fill="#fee2e2" stroke="#dc2626" />
+          <path d={`M ${7} ${rowY - 3} L ${13} ${rowY + 3} M ${13} ${rowY - 3} L ${7} ${rowY + 3}`} stroke="#dc2626" strokeWidth={1.5} />
+        </g>
+      ))}
+    </svg>
+  );
+};
+
+export default PegEditor;
@@ -0,0 +1,127 @@
+import React, { useRef, useState } from 'react';
+import { Save, FolderOpen, Link, AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { BoardPreset, PresetResult, PRESET_VERSION, parsePreset, presetToJson, encodePresetHash } from '../utils/presets';
+import { SimulationConfig, BallDefinition } from '../types';
+import { downloadFile } from '../utils/export';
+
+interface PresetPanelProps {
+  config: SimulationConfig;
+  ballDefinitions: BallDefinition[];
+  bucketLabels: string[];
+  bucketValues: (number | null)[];
+  onApply: (preset: BoardPreset) => void;
+  disabled: boolean;
+  // Result of reading a preset from the page URL, shown like a loaded file
+  initialResult?: PresetResult | null;
+}
+
+type Message = { kind: 'success'; text: string } | { kind: 'error'; text: string; details: string[] };
+
+const toMessage = (result: PresetResult | null | undefined, source: string): Message | null => {
+  if (!result) return null;
+  return result.preset
+    ? { kind: 'success', text: `Loaded "${result.preset.name}" from ${source}.` }
+    : { kind: 'error', text: `Could not load preset from ${source}:`, details: result.errors };
+};
+
+const PresetPanel: React.FC<PresetPanelProps> = ({ config, ballDefinitions, bucketLabels, bucketValues, onApply, disabled, initialResult }) => {
+  const [name, setName] = useState('My board');
+  const [message, setMessage] = useState<Message | null>(() => toMessage(initialResult, 'link'));
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const currentPreset = (): BoardPreset => ({
+    name: name.trim() || 'Untitled',
+    version: PRESET_VERSION,
+    config,
+    ballDefinitions,
+    bucketLabels,
+    bucketValues
+  });
+
+  const handleSave = () => {
+    const preset = currentPreset();
+    const fileName = preset.name.replace(/[^a-z0-9-_]+/gi, '-').replace(/^-+|-+$/g, '') || 'preset';
+    downloadFile(`${fileName}.galton.json`, presetToJson(preset), 'application/json');
+    setMessage({ kind: 'success', text: `Saved "${preset.name}".` });
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow loading the same file again
+    if (!file) return;
+
+    const result = parsePreset(await file.text());
+    if (result.preset) {
+      setName(result.preset.name);
+      onApply(result.preset);
+    }
+    setMessage(toMessage(result, file.name));
+  };
+
+  const handleCopyLink = async () => {
+    const hash = encodePresetHash(currentPreset());
+    const url = `${window.location.origin}${window.location.pathname}${window.location.search}${hash}`;
+    window.history.replaceState(null, '', hash);
+    try {
+      await navigator.clipboard.writeText(url);
+      setMessage({ kind: 'success', text: 'Link copied to clipboard.' });
+    } catch {
+      // Clipboard can be blocked (e.g. insecure origin); the address bar still has the link
+      setMessage({ kind: 'success', text: 'Link is in the address bar (clipboard unavailable).' });
+    }
+  };
+
+  const buttonClass = 'flex-1 flex items-center justify-center gap-1.5 px-2 py-1.5 text-xs font-medium rounded-md border border-slate-300 text-slate-700 hover:bg-slate-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <section>
+      <h2 className="text-sm uppercase tracking-wide text-slate-500 font-bold mb-4">Presets</h2>
+
+      <div className="space-y-3">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Preset name"
+          className="w-full px-2 py-1.5 text-sm border border-slate-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        />
+
+        <div className="flex gap-2">
+          <button onClick={handleSave} className={buttonClass} title="Download the current setup as a JSON preset">
+            <Save className="w-3.5 h-3.5" /> Save
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={disabled}
+            className={buttonClass}
+            title="Load a JSON preset file"
+          >
+            <FolderOpen className="w-3.5 h-3.5" /> Load
+          </button>
+          <button onClick={handleCopyLink} className={buttonClass} title="Copy a link that opens this exact setup">
+            <Link className="w-3.5 h-3.5" /> Copy link
+          </button>
+          <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleFile} className="hidden" />
+        </div>
+
+        {message && message.kind === 'success' && (
+          <p className="flex items-center gap-1.5 text-xs text-emerald-700">
+            <CheckCircle2 className="w-3.5 h-3.5" /> {message.text}
+          </p>
+        )}
+        {message && message.kind === 'error' && (
+          <div className="p-2 bg-red-50 border border-red-200 rounded-md text-xs text-red-700">
+            <p className="flex items-center gap-1.5 font-semibold">
+              <AlertTriangle className="w-3.5 h-3.5" /> {message.text}
+            </p>
+            <ul className="list-disc pl-5 mt-1 space-y-0.5">
+              {message.details.map((detail, i) => <li key={i}>{detail}</li>)}
+            </ul>
+          </div>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default PresetPanel;
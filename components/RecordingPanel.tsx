@@ -0,0 +1,104 @@
+import React, { useRef, useState } from 'react';
+import { Film, FolderOpen, Download, AlertTriangle } from 'lucide-react';
+import { Recording, getDuration, encodeRecordingBinary, encodeRecordingJson, decodeRecording } from '../simulation/recording';
+import { downloadFile, timestampedName } from '../utils/export';
+
+interface RecordingPanelProps {
+  intervalMs: number; // 0 = recorder off
+  onIntervalChange: (intervalMs: number) => void;
+  recording: Recording | null;
+  replaying: boolean;
+  onReplay: (recording: Recording) => void;
+  onImport: (recording: Recording) => void;
+}
+
+const INTERVALS = [
+  { value: 0, label: 'Off' },
+  { value: 33, label: '33 ms (smooth)' },
+  { value: 100, label: '100 ms' },
+  { value: 250, label: '250 ms (small files)' },
+];
+
+const RecordingPanel: React.FC<RecordingPanelProps> = ({ intervalMs, onIntervalChange, recording, replaying, onReplay, onImport }) => {
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExport = (format: 'binary' | 'json') => {
+    if (!recording) return;
+    const name = timestampedName('galton-recording');
+    if (format === 'binary') {
+      downloadFile(`${name}.gltr`, encodeRecordingBinary(recording), 'application/octet-stream');
+    } else {
+      downloadFile(`${name}.json`, encodeRecordingJson(recording), 'application/json');
+    }
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const imported = decodeRecording(await file.arrayBuffer());
+      setError(null);
+      onImport(imported);
+    } catch (e) {
+      setError(`Could not read ${file.name}: ${(e as Error).message}`);
+    }
+  };
+
+  const buttonClass = 'flex-1 flex items-center justify-center gap-1.5 px-2 py-1.5 text-xs font-medium rounded-md border border-slate-300 text-slate-700 hover:bg-slate-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <section>
+      <h2 className="text-sm uppercase tracking-wide text-slate-500 font-bold mb-4">Recording</h2>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <label className="text-sm font-medium text-slate-700">Sample every</label>
+          <select
+            value={intervalMs}
+            onChange={(e) => onIntervalChange(parseInt(e.target.value))}
+            className="text-sm border border-slate-300 rounded-md px-2 py-1"
+          >
+            {INTERVALS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+          </select>
+        </div>
+
+        <div className="text-xs text-slate-500 font-mono">
+          {recording
+            ? `${recording.frames.length} frames, ${(getDuration(recording) / 1000).toFixed(1)} s`
+            : 'Nothing recorded yet. Runs are recorded while balls are dropping.'}
+        </div>
+
+        <div className="flex gap-2">
+          <button
+            onClick={() => recording && onReplay(recording)}
+            disabled={!recording || replaying}
+            className={buttonClass}
+            title="Replay the recorded run on the board"
+          >
+            <Film className="w-3.5 h-3.5" /> Replay
+          </button>
+          <button onClick={() => handleExport('binary')} disabled={!recording} className={buttonClass} title="Download as a compact binary file">
+            <Download className="w-3.5 h-3.5" /> .gltr
+          </button>
+          <button onClick={() => handleExport('json')} disabled={!recording} className={buttonClass} title="Download as JSON">
+            <Download className="w-3.5 h-3.5" /> .json
+          </button>
+          <button onClick={() => fileInputRef.current?.click()} className={buttonClass} title="Open a recording file and replay it">
+            <FolderOpen className="w-3.5 h-3.5" /> Open
+          </button>
+          <input ref={fileInputRef} type="file" accept=".gltr,.json,application/json" onChange={handleFile} className="hidden" />
+        </div>
+
+        {error && (
+          <p className="flex items-start gap-1.5 p-2 bg-red-50 border border-red-200 rounded-md text-xs text-red-700">
+            <AlertTriangle className="w-3.5 h-3.5 flex-none mt-0.5" /> {error}
+          </p>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default RecordingPanel;
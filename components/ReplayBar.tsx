@@ -0,0 +1,61 @@
+import React from 'react';
+import { Play, Pause, X } from 'lucide-react';
+
+interface ReplayBarProps {
+  time: number; // ms from the start of the recording
+  duration: number;
+  playing: boolean;
+  speed: number;
+  onTogglePlay: () => void;
+  onSeek: (timeMs: number) => void;
+  onSpeedChange: (speed: number) => void;
+  onExit: () => void;
+}
+
+const SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+const formatTime = (ms: number) => {
+  const seconds = ms / 1000;
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toFixed(1).padStart(4, '0')}`;
+};
+
+// Transport controls shown over the board while a recording is replayed
+const ReplayBar: React.FC<ReplayBarProps> = ({ time, duration, playing, speed, onTogglePlay, onSeek, onSpeedChange, onExit }) => {
+  return (
+    <div className="absolute top-2 left-2 right-2 z-20 flex items-center gap-3 px-3 py-2 bg-white/90 backdrop-blur-sm border border-white/50 rounded shadow-sm text-xs font-mono text-slate-700">
+      <span className="px-1.5 py-0.5 bg-rose-100 text-rose-700 rounded font-bold">REPLAY</span>
+
+      <button
+        onClick={onTogglePlay}
+        className="p-1 rounded hover:bg-slate-100 text-indigo-600"
+        title={playing ? 'Pause' : 'Play'}
+      >
+        {playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+      </button>
+
+      <input
+        type="range" min="0" max={duration} step="1"
+        value={Math.min(time, duration)}
+        onChange={(e) => onSeek(parseFloat(e.target.value))}
+        className="flex-1 accent-indigo-600 cursor-pointer"
+      />
+
+      <span className="whitespace-nowrap">{formatTime(time)} / {formatTime(duration)}</span>
+
+      <select
+        value={speed}
+        onChange={(e) => onSpeedChange(parseFloat(e.target.value))}
+        className="bg-transparent border border-slate-300 rounded px-1 py-0.5"
+        title="Playback speed"
+      >
+        {SPEEDS.map(s => <option key={s} value={s}>{s}x</option>)}
+      </select>
+
+      <button onClick={onExit} className="p-1 rounded hover:bg-slate-100 text-slate-500" title="Back to the live board">
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
+
+export default ReplayBar;
@@ -0,0 +1,132 @@
+import React, { useMemo } from 'react';
+import { CheckCircle2, AlertTriangle, X } from 'lucide-react';
+import { SimulationConfig, BallDefinition, RunSummary } from '../types';
+import {
+  expectedBucketProbabilities,
+  describeDistribution,
+  chiSquareGoodnessOfFit,
+  kolmogorovSmirnov,
+  estimateRightProbability,
+  formatPValue
+} from '../utils/statistics';
+
+interface RunSummaryCardProps {
+  summary: RunSummary;
+  config: SimulationConfig;
+  bucketLabels: string[];
+  bucketValues?: number[] | null; // Mean and spread in label units when set
+  ballDefinitions: BallDefinition[];
+  onClose: () => void;
+}
+
+/** Shown over the board once a run has completed: time, counts, fit and stuck balls. */
+const RunSummaryCard: React.FC<RunSummaryCardProps> = ({ summary, config, bucketLabels, bucketValues, ballDefinitions, onClose }) => {
+  const { tally, stuck, lost, elapsedMs } = summary;
+  const counts = tally.total;
+
+  const probabilities = useMemo(
+    () => expectedBucketProbabilities(config.rowCount, config.bucketCount, config.rightProbability, config.rowOffset),
+    [config.rowCount, config.bucketCount, config.rightProbability, config.rowOffset]
+  );
+  const observed = describeDistribution(counts, bucketValues);
+  const expected = describeDistribution(probabilities, bucketValues);
+  const chiSquare = chiSquareGoodnessOfFit(counts, probabilities);
+  const ks = kolmogorovSmirnov(counts, probabilities);
+  const measured = estimateRightProbability(counts, config.rowCount);
+
+  const landed = counts.reduce((acc, c) => acc + c, 0);
+  const colorName = (id: string) => ballDefinitions.find(def => def.color.id === id)?.color.name ?? `Group ${id}`;
+
+  return (
+    <div
+      className="absolute top-4 right-4 z-20 w-72 bg-white/95 backdrop-blur rounded-lg border border-slate-200 shadow-lg text-xs"
+      onDoubleClick={(e) => e.stopPropagation()} // Don't let the board's double-click reset fire
+    >
+      <div className="flex items-center justify-between px-3 py-2 border-b border-slate-100">
+        <h3 className="flex items-center gap-1.5 text-sm font-bold text-slate-800">
+          <CheckCircle2 className="w-4 h-4 text-emerald-600" /> Run complete
+        </h3>
+        <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-700" title="Dismiss">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="px-3 py-2 space-y-2 font-mono text-slate-700">
+        <div className="flex justify-between">
+          <span>Simulated time</span>
+          <span>{(elapsedMs / 1000).toFixed(1)} s</span>
+        </div>
+        <div className="flex justify-between">
+          <span>Landed</span>
+          <span>{landed}</span>
+        </div>
+
+        {stuck.total > 0 && (
+          <div className="p-2 bg-amber-50 border border-amber-200 rounded text-amber-800">
+            <div className="flex items-center gap-1.5 font-semibold">
+              <AlertTriangle className="w-3.5 h-3.5" /> {stuck.total} stuck outside the bins
+            </div>
+            <div className="mt-1">
+              {Object.entries(stuck.byColor).map(([id, count]) => `${colorName(id)}: ${count}`).join(', ')}
+            </div>
+          </div>
+        )}
+
+        {lost.total > 0 && (
+          <div className="p-2 bg-amber-50 border border-amber-200 rounded text-amber-800">
+            <div className="flex items-center gap-1.5 font-semibold">
+              <AlertTriangle className="w-3.5 h-3.5" /> {lost.total} lost off the board or beside the bins
+            </div>
+            <div className="mt-1">
+              {Object.entries(lost.byColor).map(([id, count]) => `${colorName(id)}: ${count}`).join(', ')}
+            </div>
+          </div>
+        )}
+
+        <div>
+          <div className="text-slate-500 mb-1">Bucket counts</div>
+          <div className="flex flex-wrap gap-1">
+            {counts.map((count, i) => (
+              <span key={i} className="px-1.5 py-0.5 bg-slate-100 rounded" title={`Bucket ${i + 1}`}>
+                {bucketLabels[i] ?? i + 1}: {count}
+              </span>
+            ))}
+          </div>
+        </div>
+
+        {observed && expected && (
+          <div className="pt-2 border-t border-slate-100 space-y-1">
+            <div className="flex justify-between">
+              <span>Mean (exp.)</span>
+              <span>{observed.mean.toFixed(2)} ({expected.mean.toFixed(2)})</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Std. dev. (exp.)</span>
+              <span>{observed.standardDeviation.toFixed(2)} ({expected.standardDeviation.toFixed(2)})</span>
+            </div>
+            {chiSquare && (
+              <div className="flex justify-between">
+                <span>χ² p</span>
+                <span>{formatPValue(chiSquare.pValue)}</span>
+              </div>
+            )}
+            {ks && (
+              <div className="flex justify-between">
+                <span>KS p</span>
+                <span>{formatPValue(ks.pValue)}</span>
+              </div>
+            )}
+            {measured && (
+              <div className="flex justify-between">
+                <span>p̂ (model p)</span>
+                <span>{measured.p.toFixed(3)} ({config.rightProbability})</span>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RunSummaryCard;
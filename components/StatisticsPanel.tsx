@@ -0,0 +1,128 @@
+import React, { useMemo } from 'react';
+import { SimulationConfig } from '../types';
+import {
+  expectedBucketProbabilities,
+  describeDistribution,
+  chiSquareGoodnessOfFit,
+  kolmogorovSmirnov,
+  estimateRightProbability,
+  formatPValue
+} from '../utils/statistics';
+
+interface StatisticsPanelProps {
+  counts: number[];
+  config: SimulationConfig;
+  values?: number[] | null; // Numeric bucket values from the labels; bucket numbers 1..N without them
+  onCalibrate?: (p: number) => void; // Adopt the measured p as the model's p
+}
+
+const StatisticsPanel: React.FC<StatisticsPanelProps> = ({ counts, config, values, onCalibrate }) => {
+  const probabilities = useMemo(
+    () => expectedBucketProbabilities(config.rowCount, config.bucketCount, config.rightProbability, config.rowOffset),
+    [config.rowCount, config.bucketCount, config.rightProbability, config.rowOffset]
+  );
+  const measured = estimateRightProbability(counts, config.rowCount);
+
+  const expected = useMemo(() => describeDistribution(probabilities, values), [probabilities, values]);
+  const observed = describeDistribution(counts, values);
+  const chiSquare = chiSquareGoodnessOfFit(counts, probabilities);
+  const ks = kolmogorovSmirnov(counts, probabilities);
+
+  const rows: { label: string; key: 'mean' | 'variance' | 'standardDeviation' | 'skewness' | 'excessKurtosis' }[] = [
+    { label: 'Mean', key: 'mean' },
+    { label: 'Variance', key: 'variance' },
+    { label: 'Std. deviation', key: 'standardDeviation' },
+    { label: 'Skewness', key: 'skewness' },
+    { label: 'Excess kurtosis', key: 'excessKurtosis' },
+  ];
+
+  return (
+    <section>
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-sm uppercase tracking-wide text-slate-500 font-bold">Statistics</h2>
+        <div className="text-xs font-semibold bg-indigo-50 text-indigo-700 px-2 py-1 rounded">
+          n = {observed ? observed.count : 0}
+        </div>
+      </div>
+
+      <div className="bg-slate-50 rounded-lg border border-slate-200 overflow-hidden">
+        <table className="w-full text-xs font-mono">
+          <thead>
+            <tr className="text-slate-500 border-b border-slate-200">
+              <th className="text-left px-3 py-1 font-semibold"></th>
+              <th className="text-right px-3 py-1 font-semibold">Observed</th>
+              <th className="text-right px-3 py-1 font-semibold" title={`Binomial(${config.rowCount}, ${config.rightProbability}) mapped onto ${config.bucketCount} buckets`}>
+                Expected
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr key={row.key} className="text-slate-700 border-b border-slate-100 last:border-0">
+                <td className="text-left px-3 py-1">{row.label}</td>
+                <td className="text-right px-3 py-1">{observed ? observed[row.key].toFixed(3) : '–'}</td>
+                <td className="text-right px-3 py-1 text-slate-500">{expected ? expected[row.key].toFixed(3) : '–'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="mt-1 text-xs text-slate-400">
+        {values ? 'Mean, variance and spread are in the units of the bucket labels.' : 'Buckets are numbered 1..N; give every label a numeric value to use real units.'}
+      </p>
+
+      <div className="mt-4 space-y-3 text-sm text-slate-700">
+        <div>
+          <div className="font-medium">Right-bounce probability</div>
+          {measured ? (
+            <div className="flex items-center justify-between gap-2">
+              <div className="font-mono text-xs text-slate-600" title="Mean number of right bounces divided by the row count">
+                p̂ = {measured.p.toFixed(3)} ± {(1.96 * measured.standardError).toFixed(3)} (model p = {config.rightProbability})
+              </div>
+              {onCalibrate && (
+                <button
+                  onClick={() => onCalibrate(Math.round(measured.p * 100) / 100)}
+                  className="px-2 py-0.5 text-xs font-medium rounded border border-slate-300 text-indigo-600 hover:bg-indigo-50"
+                  title="Use the measured p for the expected curve and fast mode"
+                >
+                  Calibrate to p̂
+                </button>
+              )}
+            </div>
+          ) : (
+            <div className="text-xs text-slate-400">Not enough landed balls yet.</div>
+          )}
+        </div>
+        <div>
+          <div className="font-medium">Chi-square goodness of fit</div>
+          {chiSquare ? (
+            <div className="font-mono text-xs text-slate-600">
+              χ² = {chiSquare.statistic.toFixed(2)}, df = {chiSquare.degreesOfFreedom}, p = {formatPValue(chiSquare.pValue)}
+            </div>
+          ) : (
+            <div className="text-xs text-slate-400">Not enough landed balls yet.</div>
+          )}
+        </div>
+        <div>
+          <div className="font-medium">Kolmogorov–Smirnov</div>
+          {ks ? (
+            <div className="font-mono text-xs text-slate-600" title="Conservative for discrete buckets">
+              D = {ks.statistic.toFixed(4)}, p ≈ {formatPValue(ks.pValue)}
+            </div>
+          ) : (
+            <div className="text-xs text-slate-400">Not enough landed balls yet.</div>
+          )}
+        </div>
+        {chiSquare && ks && (
+          <div className={`text-xs ${chiSquare.pValue < 0.05 || ks.pValue < 0.05 ? 'text-amber-700' : 'text-emerald-700'}`}>
+            {chiSquare.pValue < 0.05 || ks.pValue < 0.05
+              ? 'The landed distribution departs from the binomial model (p < 0.05).'
+              : 'Consistent with the binomial model.'}
+          </div>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default StatisticsPanel;
@@ -0,0 +1,71 @@
+import React from 'react';
+import { Play, Pause, StepForward } from 'lucide-react';
+import { SimulationStatus } from '../types';
+
+interface TimeControlsProps {
+  status: SimulationStatus;
+  onTogglePause: () => void;
+  onStep: () => void;
+  timeScale: number;
+  onTimeScaleChange: (scale: number) => void;
+}
+
+export const MIN_TIME_SCALE = 0.05;
+export const MAX_TIME_SCALE = 4;
+
+// The slider is logarithmic so 0.1x..1x gets as much travel as 1x..4x
+const toSlider = (scale: number) => Math.log(scale);
+const fromSlider = (value: number) => {
+  const scale = Math.exp(value);
+  // Snap close to real time, it's the value people come back to
+  return Math.abs(scale - 1) < 0.04 ? 1 : Math.round(scale * 100) / 100;
+};
+
+/** Pause/resume, single tick and slow-motion speed for the live board. */
+const TimeControls: React.FC<TimeControlsProps> = ({ status, onTogglePause, onStep, timeScale, onTimeScaleChange }) => {
+  const isPaused = status === 'paused';
+  const canPause = status === 'running' || isPaused;
+  const buttonClass = 'p-2 rounded-md border border-slate-300 text-slate-700 hover:bg-slate-50 transition-colors disabled:opacity-40 disabled:hover:bg-transparent';
+
+  return (
+    <div className="flex items-center gap-1 pr-3 mr-1 border-r border-slate-200">
+      <button
+        onClick={onTogglePause}
+        disabled={!canPause}
+        className={buttonClass}
+        title={isPaused ? 'Resume the simulation' : 'Pause the simulation'}
+      >
+        {isPaused ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+      </button>
+      <button
+        onClick={onStep}
+        disabled={!isPaused}
+        className={buttonClass}
+        title="Advance one physics tick"
+      >
+        <StepForward className="w-4 h-4" />
+      </button>
+
+      <div className="flex items-center gap-2 ml-2" title="Simulation speed">
+        <input
+          type="range"
+          min={toSlider(MIN_TIME_SCALE)}
+          max={toSlider(MAX_TIME_SCALE)}
+          step="0.01"
+          value={toSlider(timeScale)}
+          onChange={(e) => onTimeScaleChange(fromSlider(parseFloat(e.target.value)))}
+          className="w-24 accent-indigo-600 cursor-pointer"
+        />
+        <button
+          onClick={() => onTimeScaleChange(1)}
+          className="w-12 text-xs font-mono text-slate-600 hover:text-indigo-600 text-right"
+          title="Back to real time"
+        >
+          {timeScale.toFixed(2)}x
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TimeControls;
@@ -0,0 +1,116 @@
+import React from 'react';
+import { Crosshair, X } from 'lucide-react';
+import { SimulationConfig, BallDefinition, BallTrace, PathDecision } from '../types';
+import { bucketsForBounces } from '../utils/statistics';
+
+interface TracePanelProps {
+  trace: BallTrace | null;
+  config: SimulationConfig;
+  bucketLabels: string[];
+  ballDefinitions: BallDefinition[];
+  onTagRandom: () => void;
+  onClear: () => void;
+}
+
+const DECISION_STYLES: Record<PathDecision, string> = {
+  L: 'bg-amber-100 text-amber-800 border-amber-200',
+  R: 'bg-indigo-100 text-indigo-800 border-indigo-200',
+  '?': 'bg-slate-100 text-slate-400 border-slate-200',
+};
+
+/** The followed ball's left/right decision per peg row, and the bucket those coin flips point to. */
+const TracePanel: React.FC<TracePanelProps> = ({ trace, config, bucketLabels, ballDefinitions, onTagRandom, onClear }) => {
+  const isPhysics = config.simulationMode === 'physics';
+  const label = (bucket: number) => bucketLabels[bucket] ?? `${bucket + 1}`;
+
+  const renderTrace = (t: BallTrace) => {
+    const group = ballDefinitions.find(def => def.color.id === t.colorId)?.color;
+    const known = t.decisions.filter(d => d !== '?').length;
+    const rights = t.decisions.filter(d => d === 'R').length;
+    const complete = t.decisions.length === config.rowCount && known === config.rowCount;
+    const predicted = complete ? bucketsForBounces(rights, config.rowCount, config.bucketCount, config.rowOffset) : [];
+
+    return (
+      <div className="space-y-3">
+        <div className="flex items-center gap-2 text-sm text-slate-700">
+          <span className="w-3 h-3 rounded-full border border-slate-300" style={{ backgroundColor: group?.color }} />
+          <span className="font-medium">{group?.name ?? 'Ball'}</span>
+          <span className="ml-auto text-xs text-slate-400">{t.pegsHit} pegs touched</span>
+        </div>
+
+        <div className="flex flex-wrap gap-1">
+          {Array.from({ length: config.rowCount }, (_, row) => {
+            const decision = t.decisions[row];
+            return (
+              <span
+                key={row}
+                className={`w-6 h-6 flex items-center justify-center text-xs font-mono font-bold rounded border ${decision ? DECISION_STYLES[decision] : 'border-dashed border-slate-200 text-slate-300'}`}
+                title={`Row ${row + 1}${decision === '?' ? ': passed before the ball was followed' : ''}`}
+              >
+                {decision ?? '·'}
+              </span>
+            );
+          })}
+        </div>
+
+        <div className="bg-slate-50 rounded-lg border border-slate-200 p-3 text-xs font-mono text-slate-700 space-y-1">
+          <div className="flex justify-between">
+            <span>Right bounces</span>
+            <span>{rights} of {known}{known < t.decisions.length && ` (${t.decisions.length - known} unseen)`}</span>
+          </div>
+          {complete && (
+            <div className="flex justify-between" title="k rights out of n rows puts a ball k − n/2 peg spacings from the centre">
+              <span>Offset {rights - config.rowCount / 2 >= 0 ? '+' : ''}{rights - config.rowCount / 2} →</span>
+              <span>bucket {predicted.map(label).join(' / ')}</span>
+            </div>
+          )}
+          <div className="flex justify-between">
+            <span>Landed in</span>
+            <span>{t.bucket === null ? `falling (row ${Math.min(t.decisions.length + 1, config.rowCount)})` : `bucket ${label(t.bucket)}`}</span>
+          </div>
+        </div>
+
+        {complete && t.bucket !== null && !predicted.includes(t.bucket) && (
+          <p className="text-xs text-amber-700">
+            The ball skipped sideways between rows, so where it landed differs from its coin-flip count.
+          </p>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <section>
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-sm uppercase tracking-wide text-slate-500 font-bold">Ball Path</h2>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={onTagRandom}
+            disabled={!isPhysics}
+            className="flex items-center gap-1.5 px-2 py-1 text-xs font-medium text-indigo-700 bg-indigo-50 hover:bg-indigo-100 rounded disabled:opacity-50"
+            title="Follow a random ball that hasn't reached the pegs yet"
+          >
+            <Crosshair className="w-3.5 h-3.5" /> Tag a ball
+          </button>
+          {trace && (
+            <button onClick={onClear} className="p-1 text-slate-400 hover:text-slate-700" title="Stop following">
+              <X className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      {!isPhysics ? (
+        <p className="text-sm text-slate-400 italic">Path tracing follows physics balls; fast mode has none.</p>
+      ) : trace ? (
+        renderTrace(trace)
+      ) : (
+        <p className="text-sm text-slate-400 italic">
+          Click a ball on the board, or tag one before opening the gate, to see its left/right bounce at every peg row.
+        </p>
+      )}
+    </section>
+  );
+};
+
+export default TracePanel;
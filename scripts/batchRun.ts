@@ -0,0 +1,190 @@
+// Headless batch runner: drops N balls through the board with a fixed
+// timestep and writes the landed bucket counts as JSON.
+//
+//   npm run batch -- --balls 2000 --rows 8 --buckets 16 --seed 42 --out run.json
+//   npm run batch -- --balls 200 --release metered --drop-ms 100
+
+import { writeFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { BallColor, BallDefinition, DEFAULT_COLORS, DEFAULT_CONFIG, DropOrder, SimulationConfig, MAX_BALL_GROUPS, PALETTE_SUGGESTIONS } from '../types';
+import { buildBallQueue } from '../simulation/dropOrder';
+import { createSimulation, FIXED_DELTA_MS } from '../simulation/galtonSimulation';
+import { estimateRightProbability } from '../utils/statistics';
+
+const USAGE = `Usage: npm run batch -- [options]
+
+  --balls <n>            Balls to drop (default 1000)
+  --colors <n>           Ball groups to split them across, up to ${MAX_BALL_GROUPS} (default 1)
+  --order <order>        sequential, roundRobin, shuffled or weighted (default ${DEFAULT_CONFIG.dropOrder})
+  --release <mode>       pile or metered (default ${DEFAULT_CONFIG.releaseMode})
+  --drop-ms <ms>         Interval between balls in metered release (default ${DEFAULT_CONFIG.dropSpeedMs})
+  --rows <n>             Peg rows (default ${DEFAULT_CONFIG.rowCount})
+  --buckets <n>          Bins, ignored for triangles (default ${DEFAULT_CONFIG.bucketCount})
+  --arrangement <a>      grid or triangle (default ${DEFAULT_CONFIG.pegArrangement})
+  --tilt <deg>           Board tilt, positive = right (default ${DEFAULT_CONFIG.tilt})
+  --row-offset <f>       Extra shift per peg row, in peg spacings (default ${DEFAULT_CONFIG.rowOffset})
+  --peg-shape <shape>    round, wedgeLeft or wedgeRight (default ${DEFAULT_CONFIG.pegShape})
+  --seed <n>             Seed for the drop order and engine jitter (default ${DEFAULT_CONFIG.seed})
+  --peg-size <r>         Peg radius (default ${DEFAULT_CONFIG.pegSize})
+  --ball-size <r>        Ball radius (default ${DEFAULT_CONFIG.ballSize})
+  --restitution <e>      Ball bounciness (default ${DEFAULT_CONFIG.ballRestitution})
+  --friction <f>         Ball friction (default ${DEFAULT_CONFIG.ballFriction})
+  --width <px>           Board width (default 1000)
+  --height <px>          Board height (default 625)
+  --settle-seconds <s>   Time the pile settles before the gate opens (default 1)
+  --max-seconds <s>      Simulated time limit (default 300)
+  --out <file>           Write the JSON here instead of stdout
+  -h, --help             Show this message`;
+
+const parseOptions = () => {
+  try {
+    return parseArgs({
+      options: {
+        balls: { type: 'string', default: '1000' },
+        colors: { type: 'string', default: '1' },
+        order: { type: 'string', default: DEFAULT_CONFIG.dropOrder },
+        release: { type: 'string', default: DEFAULT_CONFIG.releaseMode },
+        'drop-ms': { type: 'string', default: String(DEFAULT_CONFIG.dropSpeedMs) },
+        rows: { type: 'string', default: String(DEFAULT_CONFIG.rowCount) },
+        buckets: { type: 'string', default: String(DEFAULT_CONFIG.bucketCount) },
+        arrangement: { type: 'string', default: DEFAULT_CONFIG.pegArrangement },
+        tilt: { type: 'string', default: String(DEFAULT_CONFIG.tilt) },
+        'row-offset': { type: 'string', default: String(DEFAULT_CONFIG.rowOffset) },
+        'peg-shape': { type: 'string', default: DEFAULT_CONFIG.pegShape },
+        seed: { type: 'string', default: String(DEFAULT_CONFIG.seed) },
+        'peg-size': { type: 'string', default: String(DEFAULT_CONFIG.pegSize) },
+        'ball-size': { type: 'string', default: String(DEFAULT_CONFIG.ballSize) },
+        restitution: { type: 'string', default: String(DEFAULT_CONFIG.ballRestitution) },
+        friction: { type: 'string', default: String(DEFAULT_CONFIG.ballFriction) },
+        width: { type: 'string', default: '1000' },
+        height: { type: 'string', default: '625' },
+        'settle-seconds': { type: 'string', default: '1' },
+        'max-seconds': { type: 'string', default: '300' },
+        out: { type: 'string' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    });
+  } catch (error) {
+    // Unknown options, missing values and stray arguments
+    console.error(`${error instanceof Error ? error.message : error}\nRun with --help for the options.`);
+    process.exit(1);
+  }
+};
+
+const { values: args } = parseOptions();
+if (args.help) {
+  console.log(USAGE);
+  process.exit(0);
+}
+
+const toNumber = (name: Exclude<keyof typeof args, 'help'>) => {
+  const value = Number(args[name]);
+  if (!Number.isFinite(value)) {
+    console.error(`Invalid value for --${name}: ${args[name]}`);
+    process.exit(1);
+  }
+  return value;
+};
+
+if (args.arrangement !== 'grid' && args.arrangement !== 'triangle') {
+  console.error(`Invalid value for --arrangement: ${args.arrangement} (expected grid or triangle)`);
+  process.exit(1);
+}
+const pegArrangement = args.arrangement;
+
+const pegShape = args['peg-shape'];
+if (pegShape !== 'round' && pegShape !== 'wedgeLeft' && pegShape !== 'wedgeRight') {
+  console.error(`Invalid value for --peg-shape: ${pegShape} (expected round, wedgeLeft or wedgeRight)`);
+  process.exit(1);
+}
+
+if (args.release !== 'pile' && args.release !== 'metered') {
+  console.error(`Invalid value for --release: ${args.release} (expected pile or metered)`);
+  process.exit(1);
+}
+const releaseMode = args.release;
+
+const DROP_ORDERS: DropOrder[] = ['sequential', 'roundRobin', 'shuffled', 'weighted'];
+const dropOrder = args.order as DropOrder;
+if (!DROP_ORDERS.includes(dropOrder)) {
+  console.error(`Invalid value for --order: ${args.order} (expected ${DROP_ORDERS.join(', ')})`);
+  process.exit(1);
+}
+
+const ballCount = toNumber('balls');
+const colorCount = Math.min(MAX_BALL_GROUPS, Math.max(1, toNumber('colors')));
+
+// The app's default groups first, then numbered groups in the suggested colors
+const groups: BallColor[] = Array.from({ length: colorCount }, (_, c) =>
+  DEFAULT_COLORS[c] ?? { id: String(c + 1), color: PALETTE_SUGGESTIONS[c % PALETTE_SUGGESTIONS.length], name: `Group ${c + 1}` }
+);
+
+const config: SimulationConfig = {
+  ...DEFAULT_CONFIG,
+  ballCount,
+  rowCount: toNumber('rows'),
+  // Triangles always have one bucket per possible number of right bounces
+  bucketCount: pegArrangement === 'triangle' ? toNumber('rows') + 1 : toNumber('buckets'),
+  pegArrangement,
+  tilt: toNumber('tilt'),
+  rowOffset: toNumber('row-offset'),
+  pegShape,
+  seed: toNumber('seed'),
+  pegSize: toNumber('peg-size'),
+  ballSize: toNumber('ball-size'),
+  ballRestitution: toNumber('restitution'),
+  ballFriction: toNumber('friction'),
+  dropOrder,
+  releaseMode,
+  dropSpeedMs: toNumber('drop-ms'),
+};
+const dimensions = { width: toNumber('width'), height: toNumber('height') };
+
+// Split the balls evenly across the first `colors` groups, stacked in --order like the app
+const definitions: BallDefinition[] = groups.map((color, c) => ({
+  color,
+  count: Math.floor(ballCount / colorCount) + (c < ballCount % colorCount ? 1 : 0)
+}));
+const queue = buildBallQueue(definitions, dropOrder, config.seed);
+
+const simulation = createSimulation(config, dimensions);
+simulation.spawn(queue);
+
+// Let the pile settle against the closed gate, then release everything
+const settleSteps = Math.round((toNumber('settle-seconds') * 1000) / FIXED_DELTA_MS);
+for (let i = 0; i < settleSteps; i++) simulation.step();
+simulation.setGateOpen(true);
+
+const maxSteps = Math.round((toNumber('max-seconds') * 1000) / FIXED_DELTA_MS);
+let steps = settleSteps;
+// Run until every ball is at rest in a bin or stuck (metered runs also empty the hopper)
+while (steps < maxSteps && !simulation.isComplete()) {
+  simulation.step();
+  steps++;
+}
+
+const tally = simulation.getTally();
+const landed = tally.total.reduce((acc, c) => acc + c, 0);
+const result = {
+  config,
+  dimensions,
+  steps,
+  simulatedMs: Math.round(simulation.getElapsedMs()),
+  settled: simulation.isComplete(),
+  stuck: simulation.getStuck(),
+  lost: simulation.getLost(),
+  landed,
+  counts: tally.total,
+  countsByColor: tally.byColor,
+  // Effective p of the board, e.g. to calibrate the model for a tilted run
+  rightProbability: estimateRightProbability(tally.total, config.rowCount),
+};
+simulation.destroy();
+
+const json = JSON.stringify(result, null, 2);
+if (args.out) {
+  writeFileSync(args.out, json + '\n');
+  console.error(`Wrote ${landed}/${ballCount} landed balls after ${result.simulatedMs}ms simulated to ${args.out}`);
+} else {
+  console.log(json);
+}
@@ -0,0 +1,55 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { BallColor, BallDefinition, DEFAULT_COLORS, DropOrder } from '../types';
+import { buildBallQueue } from './dropOrder';
+
+const ORDERS: DropOrder[] = ['sequential', 'roundRobin', 'shuffled', 'weighted'];
+
+const definitions: BallDefinition[] = [
+  { color: DEFAULT_COLORS[0], count: 20 },
+  { color: DEFAULT_COLORS[1], count: 7 },
+  { color: DEFAULT_COLORS[2], count: 0 },
+  { color: DEFAULT_COLORS[3], count: 3 },
+];
+
+const countsOf = (queue: BallColor[]) =>
+  queue.reduce<Record<string, number>>((acc, c) => ({ ...acc, [c.id]: (acc[c.id] ?? 0) + 1 }), {});
+
+const idsOf = (queue: BallColor[]) => queue.map(c => c.id).join('');
+
+describe('buildBallQueue', () => {
+  for (const order of ORDERS) {
+    it(`${order} keeps every group's count`, () => {
+      const queue = buildBallQueue(definitions, order, 42);
+      assert.equal(queue.length, 30);
+      assert.deepEqual(countsOf(queue), { '1': 20, '2': 7, '4': 3 });
+    });
+
+    it(`${order} is reproducible from the seed`, () => {
+      assert.deepEqual(buildBallQueue(definitions, order, 42), buildBallQueue(definitions, order, 42));
+    });
+  }
+
+  it('sequential stacks group by group', () => {
+    assert.equal(idsOf(buildBallQueue(definitions, 'sequential', 1)), '1'.repeat(20) + '2'.repeat(7) + '444');
+  });
+
+  it('roundRobin takes one ball per group in turn until a group runs out', () => {
+    assert.equal(idsOf(buildBallQueue(definitions, 'roundRobin', 1)).slice(0, 12), '124124124121');
+  });
+
+  it('shuffled and weighted depend on the seed', () => {
+    for (const order of ['shuffled', 'weighted'] as const) {
+      assert.notEqual(idsOf(buildBallQueue(definitions, order, 1)), idsOf(buildBallQueue(definitions, order, 2)));
+    }
+  });
+
+  it('weighted spreads each group through the hopper in proportion to its count', () => {
+    const queue = buildBallQueue([{ color: DEFAULT_COLORS[0], count: 300 }, { color: DEFAULT_COLORS[1], count: 100 }], 'weighted', 7);
+    // Every quarter of the hopper holds close to a quarter of each group
+    for (let q = 0; q < 4; q++) {
+      const counts = countsOf(queue.slice(q * 100, (q + 1) * 100));
+      assert.ok(Math.abs(counts['2'] - 25) <= 2, `quarter ${q + 1} has ${counts['2']} of group 2`);
+    }
+  });
+});
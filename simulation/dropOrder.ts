@@ -0,0 +1,65 @@
+import { BallColor, BallDefinition, DropOrder } from '../types';
+import { createRandom } from '../utils/random';
+
+// Turns the ball pool into the order balls are stacked in the hopper. The first
+// entries sit lowest, right above the gate, so they drop first.
+
+// Keeps the order streams apart from the engine's jitter, which uses the bare seed
+const ORDER_SEED_SALT = 0x5eed0bd;
+
+/**
+ * Flattens `definitions` into one queue entry per ball.
+ * - sequential: group by group, as listed
+ * - roundRobin: one ball from each group in turn until a group runs out
+ * - shuffled: uniform random permutation, reproducible from `seed`
+ * - weighted: each group spread through the hopper in proportion to its count,
+ *   every ball at a random point within its share; group sizes stay as set
+ */
+export const buildBallQueue = (definitions: BallDefinition[], order: DropOrder, seed: number): BallColor[] => {
+  const total = definitions.reduce((sum, def) => sum + def.count, 0);
+  const queue: BallColor[] = new Array(total);
+  const random = createRandom(seed ^ ORDER_SEED_SALT);
+
+  switch (order) {
+    case 'roundRobin': {
+      const remaining = definitions.map(def => def.count);
+      let i = 0;
+      while (i < total) {
+        definitions.forEach((def, g) => {
+          if (remaining[g] === 0) return;
+          remaining[g]--;
+          queue[i++] = def.color;
+        });
+      }
+      return queue;
+    }
+    case 'weighted': {
+      // Group g's j-th ball sits at a random point in the j-th of its count equal slices
+      // of the hopper; merging the groups by that position keeps every count exact
+      const placed = definitions.map(() => 0);
+      const next = definitions.map(def => (def.count > 0 ? random() / def.count : Infinity));
+      for (let i = 0; i < total; i++) {
+        let g = 0;
+        for (let h = 1; h < next.length; h++) if (next[h] < next[g]) g = h;
+        queue[i] = definitions[g].color;
+        placed[g]++;
+        next[g] = placed[g] < definitions[g].count ? (placed[g] + random()) / definitions[g].count : Infinity;
+      }
+      return queue;
+    }
+    default: {
+      let i = 0;
+      definitions.forEach(def => {
+        for (let k = 0; k < def.count; k++) queue[i++] = def.color;
+      });
+      if (order === 'shuffled') {
+        // Fisher-Yates
+        for (let j = total - 1; j > 0; j--) {
+          const k = Math.floor(random() * (j + 1));
+          [queue[j], queue[k]] = [queue[k], queue[j]];
+        }
+      }
+      return queue;
+    }
+  }
+};
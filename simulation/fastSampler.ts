@@ -0,0 +1,183 @@
+import { SimulationConfig, BallColor, BucketTally } from '../types';
+import { createRandom } from '../utils/random';
+import { BoardDimensions, LayoutMetrics, getLayoutMetrics, getBucketIndex } from './layout';
+
+// Statistical "fast mode": instead of rigid-body physics, each ball flips one
+// coin per peg row and is either animated along the resulting peg-to-peg path
+// or tallied straight away. Fills the same BucketTally as the physics board.
+
+// Time a ball takes to fall from one peg row to the next
+const SEGMENT_MS = 70;
+// Interval between releases while the gate is open (animated paths only)
+const EMIT_INTERVAL_MS = 12;
+// Cap on simultaneously animated balls so drawing stays cheap
+const MAX_IN_FLIGHT = 1500;
+// Balls sampled per step when animation is off, keeps frames responsive at 1M balls
+const INSTANT_CHUNK = 25000;
+
+export interface FastBall {
+  colorId: string;
+  color: string;
+  decisions: number; // Bit r set = went right at peg row r
+  bucket: number;
+  age: number;
+  x: number;
+  y: number;
+}
+
+export interface FastSampler {
+  enqueue: (queue: BallColor[]) => void;
+  setGateOpen: (open: boolean) => void;
+  step: (deltaMs: number) => void;
+  getInFlight: () => FastBall[];
+  getQueuedCount: () => number;
+  getLandedCount: () => number;
+  getTally: () => BucketTally;
+  getElapsedMs: () => number;
+}
+
+export const createFastSampler = (config: SimulationConfig, dimensions: BoardDimensions): FastSampler => {
+  const layout: LayoutMetrics = getLayoutMetrics(dimensions.width, dimensions.height, config);
+  const { rowCount, bucketCount } = config;
+  const center = dimensions.width / 2;
+  const random = createRandom(config.seed);
+  const animate = config.fastAnimation === 'paths';
+  const p = config.rightProbability;
+
+  let queue: BallColor[] = [];
+  let queueHead = 0;
+  let inFlight: FastBall[] = [];
+  let gateOpen = false;
+  let emitBudget = 0;
+  let elapsedMs = 0;
+  let landed = 0;
+
+  const total = new Array(bucketCount).fill(0);
+  const byColor: Record<string, number[]> = {};
+
+  // One coin flip per row; the landing x follows the staggered peg grid,
+  // shifted with the last row like the waypoints below
+  const sampleBall = (color: BallColor) => {
+    let decisions = 0;
+    let rights = 0;
+    for (let row = 0; row < rowCount; row++) {
+      if (random() < p) {
+        decisions |= 1 << row;
+        rights++;
+      }
+    }
+    let landingX = center + (rights - rowCount / 2 + (rowCount - 1) * config.rowOffset) * layout.spacingX;
+    // Landing on top of a divider: it tips either way
+    const binOffset = (landingX - layout.binAreaStartX) / layout.spacingX;
+    if (Number.isInteger(binOffset)) {
+      landingX += (random() < 0.5 ? -0.25 : 0.25) * layout.spacingX;
+    }
+    return { decisions, bucket: getBucketIndex(landingX, layout, bucketCount) };
+  };
+
+  const record = (colorId: string, bucket: number) => {
+    total[bucket]++;
+    if (!byColor[colorId]) byColor[colorId] = new Array(bucketCount).fill(0);
+    byColor[colorId][bucket]++;
+    landed++;
+  };
+
+  // Waypoint k: 0 = funnel exit, 1..rowCount = on top of each peg, then the bin
+  const waypoint = (ball: FastBall, k: number) => {
+    if (k === 0) return { x: center, y: layout.funnelExitY };
+    if (k <= rowCount) {
+      const row = k - 1;
+      let rights = 0;
+      for (let r = 0; r < row; r++) if (ball.decisions & (1 << r)) rights++;
+      return {
+        x: center + (rights - row / 2 + row * config.rowOffset) * layout.spacingX,
+        y: layout.pegStartY + row * layout.spacingY - config.pegSize - config.ballSize
+      };
+    }
+    const binX = layout.binAreaStartX + (ball.bucket + 0.5) * layout.spacingX;
+    return { x: binX, y: layout.binStartY + Math.min(40, layout.binHeight * 0.3) };
+  };
+
+  const lastWaypoint = rowCount + 1;
+
+  const updatePosition = (ball: FastBall) => {
+    const segment = Math.min(lastWaypoint - 1, Math.floor(ball.age / SEGMENT_MS));
+    const t = Math.min(1, (ball.age - segment * SEGMENT_MS) / SEGMENT_MS);
+    const from = waypoint(ball, segment);
+    const to = waypoint(ball, segment + 1);
+    // Horizontal glide, vertical fall with a little acceleration
+    ball.x = from.x + (to.x - from.x) * t;
+    ball.y = from.y + (to.y - from.y) * t * t;
+  };
+
+  const release = () => {
+    const color = queue[queueHead++];
+    const { decisions, bucket } = sampleBall(color);
+    const ball: FastBall = { colorId: color.id, color: color.color, decisions, bucket, age: 0, x: center, y: layout.funnelExitY };
+    inFlight.push(ball);
+  };
+
+  const step = (deltaMs: number) => {
+    elapsedMs += deltaMs;
+    const queued = queue.length - queueHead;
+
+    if (!animate) {
+      if (gateOpen) {
+        const count = Math.min(queued, INSTANT_CHUNK);
+        for (let i = 0; i < count; i++) {
+          const color = queue[queueHead++];
+          record(color.id, sampleBall(color).bucket);
+        }
+      }
+    } else {
+      if (gateOpen && queued > 0) {
+        emitBudget += deltaMs;
+        while (emitBudget >= EMIT_INTERVAL_MS && queueHead < queue.length && inFlight.length < MAX_IN_FLIGHT) {
+          release();
+          emitBudget -= EMIT_INTERVAL_MS;
+        }
+        // Don't bank release time while the in-flight cap is hit
+        emitBudget = Math.min(emitBudget, EMIT_INTERVAL_MS);
+      }
+
+      const duration = lastWaypoint * SEGMENT_MS;
+      const stillFlying: FastBall[] = [];
+      for (const ball of inFlight) {
+        ball.age += deltaMs;
+        if (ball.age >= duration) {
+          record(ball.colorId, ball.bucket);
+        } else {
+          updatePosition(ball);
+          stillFlying.push(ball);
+        }
+      }
+      inFlight = stillFlying;
+    }
+
+    // Let go of the drained queue so repeated fills don't keep old entries alive
+    if (queueHead > 0 && queueHead === queue.length) {
+      queue = [];
+      queueHead = 0;
+    }
+  };
+
+  return {
+    enqueue: (next: BallColor[]) => {
+      queue = queue.slice(queueHead).concat(next);
+      queueHead = 0;
+    },
+    setGateOpen: (open: boolean) => {
+      gateOpen = open;
+      if (!open) emitBudget = 0;
+    },
+    step,
+    getInFlight: () => inFlight,
+    getQueuedCount: () => queue.length - queueHead,
+    getLandedCount: () => landed,
+    getTally: () => ({
+      total: [...total],
+      byColor: Object.fromEntries(Object.entries(byColor).map(([id, counts]) => [id, [...counts]]))
+    }),
+    getElapsedMs: () => elapsedMs
+  };
+};
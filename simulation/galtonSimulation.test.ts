@@ -0,0 +1,71 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { BallDefinition, BucketTally, DEFAULT_COLORS, DEFAULT_CONFIG, SimulationConfig } from '../types';
+import { buildBallQueue } from './dropOrder';
+import { createSimulation } from './galtonSimulation';
+import { createFastSampler } from './fastSampler';
+
+const dimensions = { width: 1000, height: 625 };
+const definitions: BallDefinition[] = [
+  { color: DEFAULT_COLORS[0], count: 25 },
+  { color: DEFAULT_COLORS[1], count: 15 },
+];
+
+const sum = (values: number[]) => values.reduce((acc, v) => acc + v, 0);
+
+// Headless run like scripts/batchRun.ts: settle the pile, open the gate, step until done
+const runPhysics = (config: SimulationConfig) => {
+  const simulation = createSimulation(config, dimensions);
+  simulation.spawn(buildBallQueue(definitions, config.dropOrder, config.seed));
+  for (let i = 0; i < 60; i++) simulation.step();
+  simulation.setGateOpen(true);
+  for (let i = 0; i < 60 * 120 && !simulation.isComplete(); i++) simulation.step();
+
+  const result = {
+    complete: simulation.isComplete(),
+    tally: simulation.getTally(),
+    stuck: simulation.getStuck().total,
+    lost: simulation.getLost().total,
+  };
+  simulation.destroy();
+  return result;
+};
+
+const runFast = (config: SimulationConfig): BucketTally => {
+  const sampler = createFastSampler(config, dimensions);
+  sampler.enqueue(buildBallQueue(definitions, config.dropOrder, config.seed));
+  sampler.setGateOpen(true);
+  for (let i = 0; i < 1000 && sampler.getLandedCount() < 40; i++) sampler.step(1000);
+  return sampler.getTally();
+};
+
+describe('createSimulation', () => {
+  const config: SimulationConfig = { ...DEFAULT_CONFIG, ballCount: 40, seed: 7, dropOrder: 'roundRobin' };
+
+  it('accounts for every ball once the run completes', () => {
+    const run = runPhysics(config);
+    assert.ok(run.complete);
+    assert.equal(sum(run.tally.total) + run.stuck + run.lost, 40);
+    assert.equal(sum(run.tally.byColor['1']) + sum(run.tally.byColor['2']), sum(run.tally.total));
+  });
+
+  it('gives the same tally for the same seed', () => {
+    assert.deepEqual(runPhysics(config).tally, runPhysics(config).tally);
+  });
+});
+
+describe('createFastSampler', () => {
+  const config: SimulationConfig = { ...DEFAULT_CONFIG, simulationMode: 'fast', fastAnimation: 'none', ballCount: 40, seed: 7 };
+
+  it('lands every ball', () => {
+    const tally = runFast(config);
+    assert.equal(sum(tally.total), 40);
+    assert.equal(sum(tally.byColor['1']), 25);
+    assert.equal(sum(tally.byColor['2']), 15);
+  });
+
+  it('gives the same tally for the same seed', () => {
+    assert.deepEqual(runFast(config), runFast(config));
+    assert.notDeepEqual(runFast(config).total, runFast({ ...config, seed: 8 }).total);
+  });
+});
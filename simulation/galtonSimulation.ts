@@ -0,0 +1,700 @@
+import Matter from 'matter-js';
+import { SimulationConfig, BallColor, BallPhysics, BallTrace, BucketTally, StuckReport, PegShape, DEFAULT_BALL_DENSITY } from '../types';
+import { createRandom } from '../utils/random';
+import { BoardDimensions, LayoutMetrics, getLayoutMetrics, getBucketIndex, getFunnelGap, getPegPositions } from './layout';
+
+// Framework-free Galton board: builds the Matter world from a config and
+// exposes the board actions. Used by the React component and the CLI runner.
+
+// Engine step used by the browser runner and the batch runner alike
+export const FIXED_DELTA_MS = 1000 / 60;
+
+// Gate geometry shared by construction and the open/close animation
+const GATE_OVERLAP = 30;
+const GATE_CENTER_OVERLAP = 5;
+const GATE_HEIGHT = 14;
+const GATE_EASING = 0.2;
+// Horizontal speed range (px per step) given to balls emitted from the neck
+const NECK_KICK = 2;
+
+// Completion: a ball outside the bins that moved less than a ball radius in this much
+// simulated time is stuck, and the run is complete once nothing else moved for a while
+const STUCK_AFTER_MS = 5000;
+const COMPLETION_DEBOUNCE_MS = 1000;
+// A ball this far (px) past the sides or the bottom of the board has left it for good
+const OFF_BOARD_MARGIN = 200;
+
+// Path tracing: trail points closer than this (px) are skipped, and the trail is capped
+const TRACE_MIN_STEP = 2;
+const MAX_TRACE_POINTS = 2000;
+
+/**
+ * Outline of a wedge peg around its centre: a block whose top slopes down towards
+ * the side it deflects to. Null for round pegs.
+ */
+const getWedgeVertices = (shape: PegShape, size: number) => {
+  if (shape === 'round') return null;
+  const low = size * 0.1; // Height of the low end of the slope, relative to the centre
+  const verts = [
+    { x: -size, y: -size },
+    { x: size, y: low },
+    { x: size, y: size },
+    { x: -size, y: size }
+  ];
+  // Mirror for wedges that deflect to the left
+  return shape === 'wedgeRight' ? verts : verts.map(v => ({ x: -v.x, y: v.y })).reverse();
+};
+
+// The followed ball and what's needed to decide its next peg row
+interface TraceState {
+  ball: Matter.Body;
+  trace: BallTrace;
+  row: number; // Next peg row to decide
+  crossX: number | null; // x where the ball came level with that row
+  peg: Matter.Vector | null; // Last peg touched in that row
+  pegIds: Set<number>;
+}
+
+export interface GaltonSimulation {
+  readonly engine: Matter.Engine;
+  /**
+   * Clears the world and builds a fresh board; also reseeds the PRNG from `config.seed`.
+   * `ballPhysics` holds per-group overrides by BallColor.id; the funnel is sized for the largest ball.
+   */
+  rebuild: (config: SimulationConfig, dimensions: BoardDimensions, ballPhysics?: Record<string, BallPhysics>) => void;
+  /**
+   * Stacks one ball per queue entry above the funnel. In metered release the
+   * entries wait in the hopper instead and are emitted from the neck one by one.
+   */
+  spawn: (queue: BallColor[]) => void;
+  /** Metered release: emits the next `count` balls even while the gate is closed. */
+  drop: (count: number) => void;
+  /** Changes the metered release interval without rebuilding the board. */
+  setDropInterval: (ms: number) => void;
+  setGateOpen: (open: boolean) => void;
+  isGateOpen: () => boolean;
+  /** Advances the engine by one fixed step (or `deltaMs` if given), scaled by the time scale. */
+  step: (deltaMs?: number) => void;
+  /** Slow motion: shrinks every step via `engine.timing.timeScale` (1 = real time). */
+  setTimeScale: (scale: number) => void;
+  getConfig: () => SimulationConfig;
+  getLayout: () => LayoutMetrics;
+  getDimensions: () => BoardDimensions;
+  getBalls: () => Matter.Body[];
+  getStaticBodies: () => Matter.Body[];
+  getGates: () => Matter.Body[];
+  getActiveCount: () => number;
+  /** Balls still waiting in the hopper (metered release). */
+  getQueuedCount: () => number;
+  /**
+   * True once every ball is asleep in a bin or stuck, nothing is left in the hopper,
+   * and that has held for a short debounce. Balls that leave the board are removed
+   * (see getLost) rather than waited for. False while the board is empty.
+   */
+  isComplete: () => boolean;
+  getStuck: () => StuckReport;
+  /** Balls below the bin tops but outside the bin area, plus balls removed after leaving the board. */
+  getLost: () => StuckReport;
+  /** Balls in each bin; balls outside the bin area are reported by getLost instead. */
+  getTally: () => BucketTally;
+  /** Follows `ball` (one of getBalls()) peg row by peg row; null stops following. */
+  traceBall: (ball: Matter.Body | null) => void;
+  /**
+   * Follows a random ball that hasn't reached the pegs, chosen by `pick` in [0, 1) rather
+   * than the board's PRNG so tagging doesn't change the run. In metered release with
+   * nothing waiting, the next ball out of the neck is followed. False if there is nothing to tag.
+   */
+  traceRandomBall: (pick: number) => boolean;
+  /** The followed ball's trail and decisions; null while nothing is followed (or released yet). */
+  getTrace: () => BallTrace | null;
+  /** Simulated time since the last rebuild. */
+  getElapsedMs: () => number;
+  destroy: () => void;
+}
+
+export const createSimulation = (
+  initialConfig: SimulationConfig,
+  initialDimensions: BoardDimensions,
+  initialBallPhysics: Record<string, BallPhysics> = {}
+): GaltonSimulation => {
+  // OPTIMIZATION: Enable Sleeping
+  const engine = Matter.Engine.create({
+    enableSleeping: true,
+    gravity: { x: 0, y: 1, scale: 0.001 }
+  });
+
+  let config = initialConfig;
+  let dimensions = initialDimensions;
+  let ballPhysics = initialBallPhysics;
+  let layout = getLayoutMetrics(dimensions.width, dimensions.height, config);
+  let random = createRandom(config.seed);
+  let gateOpen = false;
+
+  let balls: Matter.Body[] = []; // Direct access to ball bodies to avoid world filtering
+  let staticBodies: Matter.Body[] = [];
+  let leftGate: Matter.Body | null = null;
+  let rightGate: Matter.Body | null = null;
+
+  // Metered release: pending balls, balls owed by drop(), and time banked towards the next one
+  let hopper: BallColor[] = [];
+  let hopperHead = 0;
+  let dropCredits = 0;
+  let emitBudget = 0;
+  let lastEmitted: Matter.Body | null = null;
+
+  // Simulated time since which nothing has been moving, null while something is
+  let settledSince: number | null = null;
+
+  // Balls removed after leaving the board (e.g. tunnelling through the floor), by group
+  let removed: Record<string, number> = {};
+
+  let tracing: TraceState | null = null;
+  let traceNextEmitted = false;
+  let pegRows: number[][] = []; // Peg x positions per row, to judge rows the ball slipped through
+
+  // Radius of the biggest ball any group can spawn
+  const getLargestBallSize = () =>
+    Object.values(ballPhysics).reduce((max, p) => Math.max(max, p.size ?? 0), config.ballSize);
+
+  const getClosedGatePositions = () => {
+    const gateWidth = (getFunnelGap(getLargestBallSize()) / 2) + GATE_OVERLAP;
+    const center = dimensions.width / 2;
+    return {
+      gateWidth,
+      left: center - (gateWidth / 2) + GATE_CENTER_OVERLAP,
+      right: center + (gateWidth / 2) - GATE_CENTER_OVERLAP
+    };
+  };
+
+  const rebuild = (nextConfig: SimulationConfig, nextDimensions: BoardDimensions, nextBallPhysics: Record<string, BallPhysics> = {}) => {
+    config = nextConfig;
+    dimensions = nextDimensions;
+    ballPhysics = nextBallPhysics;
+    layout = getLayoutMetrics(dimensions.width, dimensions.height, config);
+    random = createRandom(config.seed);
+    engine.timing.timestamp = 0;
+
+    // Tilting the board tips gravity sideways
+    const tiltRadians = (config.tilt * Math.PI) / 180;
+    engine.gravity.x = Math.sin(tiltRadians);
+    engine.gravity.y = Math.cos(tiltRadians);
+
+    Matter.World.clear(engine.world, false); // Keep engine, clear bodies
+    balls = [];
+    hopper = [];
+    hopperHead = 0;
+    dropCredits = 0;
+    emitBudget = config.dropSpeedMs; // The first ball goes right away
+    lastEmitted = null;
+    settledSince = null;
+    removed = {};
+    tracing = null;
+    traceNextEmitted = false;
+
+    const { width, height } = dimensions;
+    const { funnelSlopeHeight, funnelExitY, pegStartY, binStartY, binHeight, binAreaStartX, spacingX, spacingY } = layout;
+    const { bucketCount, pegSize } = config;
+
+    // --- Funnel ---
+    // STRICT SINGLE FILE GAP for Normal Distribution (wide enough for the largest group)
+    const gap = getFunnelGap(getLargestBallSize());
+
+    const halfWidth = width / 2;
+    const tipXLeft = halfWidth - gap / 2;
+    const tipXRight = halfWidth + gap / 2;
+
+    // Merge Slope and Neck into single bodies to prevent cracks where balls get stuck.
+
+    // Left Wall Body (Polygon)
+    // Vertices order: Top-Left -> Slope-Corner -> Neck-Bottom -> Wall-Bottom
+    const leftVerts = [
+        { x: 0, y: 0 },
+        { x: tipXLeft, y: funnelSlopeHeight },
+        { x: tipXLeft, y: funnelExitY },
+        { x: 0, y: funnelExitY }
+    ];
+    // Calculate centroid manually to ensure correct absolute positioning with fromVertices
+    const leftCentre = Matter.Vertices.centre(leftVerts);
+    const funnelLeft = Matter.Bodies.fromVertices(leftCentre.x, leftCentre.y, [leftVerts], {
+        isStatic: true, label: 'funnel', friction: 0, restitution: 0
+    });
+
+    // Right Wall Body (Polygon)
+    const rightVerts = [
+        { x: width, y: 0 },
+        { x: width, y: funnelExitY },
+        { x: tipXRight, y: funnelExitY },
+        { x: tipXRight, y: funnelSlopeHeight }
+    ];
+    const rightCentre = Matter.Vertices.centre(rightVerts);
+    const funnelRight = Matter.Bodies.fromVertices(rightCentre.x, rightCentre.y, [rightVerts], {
+        isStatic: true, label: 'funnel', friction: 0, restitution: 0
+    });
+
+    // --- Sliding Gates ---
+    // Initial Positions (Closed), at the exit of the neck
+    const closed = getClosedGatePositions();
+    leftGate = Matter.Bodies.rectangle(closed.left, funnelExitY, closed.gateWidth, GATE_HEIGHT, {
+        isStatic: true, label: 'gate',
+        render: { fillStyle: '#000000' },
+        friction: 0.1
+    });
+    rightGate = Matter.Bodies.rectangle(closed.right, funnelExitY, closed.gateWidth, GATE_HEIGHT, {
+        isStatic: true, label: 'gate',
+        render: { fillStyle: '#000000' },
+        friction: 0.1
+    });
+
+    // --- Pegs ---
+    // Generated staggered grid, or the hand-edited layout from the config
+    const pegOptions = {
+        isStatic: true,
+        label: 'peg',
+        friction: 0.001, // Slight friction to aid rolling
+        restitution: config.ballRestitution
+    };
+    const wedge = getWedgeVertices(config.pegShape, pegSize);
+    const pegPositions = getPegPositions(dimensions, layout, config);
+    pegRows = Array.from({ length: config.rowCount }, () => []);
+    pegPositions.forEach(({ x, y }) => {
+        const row = Math.round((y - pegStartY) / spacingY);
+        if (row >= 0 && row < config.rowCount) pegRows[row].push(x);
+    });
+    const pegs: Matter.Body[] = pegPositions.map(({ x, y }) =>
+        wedge
+            ? Matter.Bodies.fromVertices(x, y, [wedge], pegOptions)
+            : Matter.Bodies.circle(x, y, pegSize, pegOptions)
+    );
+
+    // --- Bins ---
+    const bins: Matter.Body[] = [];
+    const validBinHeight = Math.max(1, binHeight);
+    const binCenterY = binStartY + (validBinHeight / 2);
+
+    for (let i = 0; i <= bucketCount; i++) {
+        const divX = binAreaStartX + (i * spacingX);
+        const divider = Matter.Bodies.rectangle(divX, binCenterY, 4, validBinHeight, {
+                isStatic: true, label: 'bin', chamfer: { radius: 2 }, friction: 0
+        });
+        bins.push(divider);
+    }
+
+    // --- Triangle guides ---
+    // Walls along both sides of the quincunx keep balls from bouncing out of the
+    // triangle, running from just above the apex down to the outer bin edges
+    const guides: Matter.Body[] = [];
+    if (config.pegArrangement === 'triangle') {
+        const topY = pegStartY - spacingY / 2;
+        [-1, 1].forEach(side => {
+            const top = { x: width / 2 + side * spacingX / 2, y: topY };
+            const bottom = { x: width / 2 + side * (bucketCount * spacingX) / 2, y: binStartY };
+            const length = Math.hypot(bottom.x - top.x, bottom.y - top.y);
+            guides.push(Matter.Bodies.rectangle((top.x + bottom.x) / 2, (top.y + bottom.y) / 2, 4, length, {
+                isStatic: true, label: 'guide', friction: 0,
+                angle: -Math.atan2(bottom.x - top.x, bottom.y - top.y)
+            }));
+        });
+    }
+
+    const floor = Matter.Bodies.rectangle(width/2, height + 50, width * 2, 100, { isStatic: true, label: 'floor', friction: 0 });
+
+    // Side walls just outside the view: the funnel is open at the top, so a ball
+    // bouncing out of the pile would otherwise fall past the board
+    const walls = [-1, 1].map(side => Matter.Bodies.rectangle(
+        side < 0 ? -50 : width + 50, height / 2 - height, 100, height * 3 + 200,
+        { isStatic: true, label: 'wall', friction: 0 }
+    ));
+
+    staticBodies = [...pegs, ...bins, ...guides, funnelLeft, funnelRight, floor, ...walls];
+    Matter.World.add(engine.world, [...staticBodies, leftGate, rightGate]);
+  };
+
+  const createBall = (color: BallColor, x: number, y: number) => {
+    // Group overrides fall back to the board-wide settings
+    const physics = ballPhysics[color.id] ?? {};
+
+    return Matter.Bodies.circle(x, y, physics.size ?? config.ballSize, {
+        label: 'ball',
+        restitution: 0,
+        friction: physics.friction ?? config.ballFriction, // Configurable Friction
+        frictionAir: 0.005,
+        density: physics.density ?? DEFAULT_BALL_DENSITY,
+        sleepThreshold: 30, // Default is 60, lower means they sleep sooner
+        render: { fillStyle: color.color },
+        // Tag for per-color statistics; restitution is applied once past the funnel
+        plugin: { colorId: color.id, restitution: physics.restitution }
+    });
+  };
+
+  const spawn = (queue: BallColor[]) => {
+    if (config.releaseMode === 'metered') {
+      hopper = hopper.slice(hopperHead).concat(queue);
+      hopperHead = 0;
+      return;
+    }
+
+    const { width } = dimensions;
+    const { funnelSlopeHeight } = layout;
+    const ballSpacing = getLargestBallSize() * 2.2;
+    const ballsPerRow = Math.max(1, Math.floor(width / ballSpacing) - 2);
+
+    const newBalls = queue.map((color, i) => {
+          const col = i % ballsPerRow;
+          const row = Math.floor(i / ballsPerRow);
+
+          const rowWidth = ballsPerRow * ballSpacing;
+          const startX = (width - rowWidth) / 2;
+
+          // Spawn above the funnel slope
+          const x = startX + (col * ballSpacing) + (random() - 0.5) * 6;
+          const y = funnelSlopeHeight - 50 - (row * ballSpacing * 1.1) - (random() * 50);
+
+          return createBall(color, x, y);
+      });
+
+    balls = [...balls, ...newBalls];
+    Matter.World.add(engine.world, newBalls);
+  };
+
+  const setGateOpen = (open: boolean) => {
+    gateOpen = open;
+    // Drops asked for before the gate opened are covered by it; don't release them once it shuts
+    dropCredits = 0;
+    // Initial wake up signal when gate opens; waiting balls get a fresh stuck timer
+    if (open) {
+      for (const body of balls) {
+        Matter.Sleeping.set(body, false);
+        body.plugin.movedAt = engine.timing.timestamp;
+      }
+    }
+  };
+
+  // Balls resting on the closed gate are waiting, not stuck
+  const isWaiting = (ball: Matter.Body) => !gateOpen && ball.position.y < layout.funnelExitY + GATE_HEIGHT;
+
+  const isStuck = (ball: Matter.Body) =>
+    ball.position.y <= layout.binStartY && !isWaiting(ball) && engine.timing.timestamp - ball.plugin.movedAt >= STUCK_AFTER_MS;
+
+  // --- Path Tracing ---
+
+  const traceBall = (ball: Matter.Body | null) => {
+    traceNextEmitted = false;
+    if (!ball) {
+      tracing = null;
+      return;
+    }
+    // Rows the ball is already level with can't be decided any more
+    const { pegStartY, spacingY } = layout;
+    let row = 0;
+    while (row < config.rowCount && ball.position.y > pegStartY + row * spacingY) row++;
+
+    tracing = {
+      ball,
+      trace: {
+        colorId: ball.plugin.colorId,
+        radius: ball.circleRadius,
+        trail: [ball.position.x, ball.position.y],
+        decisions: new Array(row).fill('?'),
+        pegsHit: 0,
+        bucket: null
+      },
+      row,
+      crossX: null,
+      peg: null,
+      pegIds: new Set()
+    };
+  };
+
+  const traceRandomBall = (pick: number) => {
+    const waiting = balls.filter(ball => ball.position.y < layout.pegStartY);
+    if (waiting.length > 0) {
+      traceBall(waiting[Math.floor(pick * waiting.length)]);
+      return true;
+    }
+    if (hopperHead < hopper.length) {
+      tracing = null;
+      traceNextEmitted = true;
+      return true;
+    }
+    return false;
+  };
+
+  const nearestPegX = (row: number, x: number) =>
+    pegRows[row].reduce((best, pegX) => (Math.abs(pegX - x) < Math.abs(best - x) ? pegX : best), Infinity);
+
+  // Called once per step: extends the trail and decides every peg row the ball has cleared.
+  // A row is decided when the ball comes level with the next one (or reaches the bins), by
+  // which side it is on of the peg it touched in that row; a ball that slipped through
+  // untouched is judged against the row's peg nearest to where it came level with the row
+  const updateTrace = () => {
+    if (!tracing || tracing.ball.isSleeping) return;
+    const { ball, trace } = tracing;
+    const { x, y } = ball.position;
+
+    const last = trace.trail.length - 2;
+    if (trace.trail.length < MAX_TRACE_POINTS * 2 && Math.hypot(x - trace.trail[last], y - trace.trail[last + 1]) >= TRACE_MIN_STEP) {
+      trace.trail.push(x, y);
+    }
+
+    const { pegStartY, spacingY, binStartY } = layout;
+    while (tracing.row < config.rowCount) {
+      const rowY = pegStartY + tracing.row * spacingY;
+      if (y <= rowY) break;
+      if (tracing.crossX === null) tracing.crossX = x;
+      if (y <= Math.min(rowY + spacingY, binStartY)) break;
+
+      const nearest = nearestPegX(tracing.row, tracing.crossX);
+      const reference = tracing.peg ? tracing.peg.x : Number.isFinite(nearest) ? nearest : tracing.crossX;
+      trace.decisions.push(x >= reference ? 'R' : 'L');
+      tracing.row++;
+      tracing.peg = null;
+      tracing.crossX = null;
+    }
+
+    if (trace.bucket === null && y > binStartY) {
+      trace.bucket = getBucketIndex(x, layout, config.bucketCount);
+    }
+  };
+
+  // Peg contacts of the followed ball, so each row can be judged against the peg it hit
+  const handleCollisions = (event: { pairs: Matter.Pair[] }) => {
+    if (!tracing) return;
+    const { pegStartY, spacingY } = layout;
+    const rowY = pegStartY + tracing.row * spacingY;
+    for (const pair of event.pairs) {
+      const other = pair.bodyA === tracing.ball ? pair.bodyB : pair.bodyB === tracing.ball ? pair.bodyA : null;
+      if (!other || other.label !== 'peg') continue;
+      tracing.pegIds.add(other.id);
+      tracing.trace.pegsHit = tracing.pegIds.size;
+      if (Math.abs(other.position.y - rowY) < spacingY / 2) tracing.peg = { x: other.position.x, y: other.position.y };
+    }
+  };
+
+  // Emits the next hopper ball just below the gate, once the previous one has cleared the neck
+  const emitFromNeck = () => {
+    const radius = getLargestBallSize();
+    const x = dimensions.width / 2 + (random() - 0.5) * 0.5;
+    const y = layout.funnelExitY + GATE_HEIGHT / 2 + radius + 1;
+    if (lastEmitted && Math.hypot(lastEmitted.position.x - x, lastEmitted.position.y - y) < radius * 2.2) return false;
+
+    const ball = createBall(hopper[hopperHead++], x, y);
+    // A lone ball has no pile pushing it around; a small random kick stands in for that
+    Matter.Body.setVelocity(ball, { x: (random() - 0.5) * NECK_KICK, y: 0 });
+    balls.push(ball);
+    Matter.World.add(engine.world, ball);
+    lastEmitted = ball;
+    if (traceNextEmitted) {
+      traceNextEmitted = false;
+      traceBall(ball);
+    }
+
+    // Let go of the drained hopper so repeated fills don't keep old entries alive
+    if (hopperHead === hopper.length) {
+      hopper = [];
+      hopperHead = 0;
+      dropCredits = 0;
+    }
+    return true;
+  };
+
+  // Per-tick adjustments, run from beforeUpdate so they happen once per
+  // fixed physics step (needed for reproducible runs).
+  const applyTickAdjustments = (event: { delta: number }) => {
+    // --- Metered Release ---
+    // The open gate releases continuously, drop() only as many balls as asked for
+    if (hopperHead < hopper.length && (gateOpen || dropCredits > 0)) {
+      emitBudget += event.delta;
+      if (emitBudget >= config.dropSpeedMs && emitFromNeck()) {
+        emitBudget -= config.dropSpeedMs;
+        if (!gateOpen) dropCredits--;
+      }
+      // At most one ball per step, so don't bank time while the neck is busy
+      emitBudget = Math.min(emitBudget, config.dropSpeedMs);
+    }
+
+    // --- Gate Animation ---
+    if (leftGate && rightGate) {
+      const closed = getClosedGatePositions();
+      const slideDist = closed.gateWidth + 5;
+
+      const targetLeftX = gateOpen ? closed.left - slideDist : closed.left;
+      const targetRightX = gateOpen ? closed.right + slideDist : closed.right;
+
+      const newLeftX = leftGate.position.x + (targetLeftX - leftGate.position.x) * GATE_EASING;
+      const newRightX = rightGate.position.x + (targetRightX - rightGate.position.x) * GATE_EASING;
+
+      Matter.Body.setPosition(leftGate, { x: newLeftX, y: leftGate.position.y });
+      Matter.Body.setPosition(rightGate, { x: newRightX, y: rightGate.position.y });
+    }
+
+    // --- Ball Physics Adjustments ---
+    const binLimit = layout.binStartY - 10;
+    const funnelLimit = layout.funnelExitY + 10;
+    const restitution = config.ballRestitution;
+    const binStartY = layout.binStartY;
+    const now = engine.timing.timestamp;
+    let moving = 0; // Balls that keep the run from being complete
+    let escaped: Matter.Body[] | null = null;
+
+    for (let i = 0; i < balls.length; i++) {
+        const ball = balls[i];
+
+        // Off the board: it would fall forever and never let the run complete
+        if (isOffBoard(ball)) {
+            (escaped ??= []).push(ball);
+            continue;
+        }
+
+        // Stuck watch: remember where a ball outside the bins last made progress
+        if (ball.position.y <= binStartY) {
+            const anchor = ball.plugin.anchor;
+            if (!anchor || Math.hypot(ball.position.x - anchor.x, ball.position.y - anchor.y) > ball.circleRadius) {
+                ball.plugin.anchor = { x: ball.position.x, y: ball.position.y };
+                ball.plugin.movedAt = now;
+            }
+            if (!isStuck(ball)) moving++;
+        } else if (!ball.isSleeping) {
+            moving++;
+        }
+
+        // CRITICAL: Force wake up balls if the gate is open and they are above the bins
+        if (gateOpen && ball.position.y < binStartY && ball.isSleeping) {
+            Matter.Sleeping.set(ball, false);
+        }
+
+        if (ball.isSleeping) continue;
+
+        const y = ball.position.y;
+
+        // Reduce bounce in funnel and bins
+        if (y < funnelLimit) {
+            if (ball.restitution !== 0.1) ball.restitution = 0.1; // Small damping
+        } else if (y > binLimit) {
+            if (ball.restitution !== 0) ball.restitution = 0;
+        } else {
+            const target = ball.plugin.restitution ?? restitution;
+            if (ball.restitution !== target) ball.restitution = target;
+        }
+
+        // Anti-jamming: slight noise for almost stopped balls in funnel
+        if (gateOpen && y < funnelLimit && ball.speed < 0.1 && random() < 0.05) {
+            Matter.Body.applyForce(ball, ball.position, { x: (random() - 0.5) * 0.0001, y: 0 });
+        }
+    }
+
+    if (escaped) removeBalls(escaped);
+
+    updateTrace();
+
+    // --- Completion ---
+    if (moving === 0 && (balls.length > 0 || Object.keys(removed).length > 0) && hopperHead === hopper.length) {
+        if (settledSince === null) settledSince = now;
+    } else {
+        settledSince = null;
+    }
+  };
+
+  const getStuck = (): StuckReport => {
+    const byColor: Record<string, number> = {};
+    let total = 0;
+    for (const ball of balls) {
+      if (!isStuck(ball)) continue;
+      total++;
+      byColor[ball.plugin.colorId] = (byColor[ball.plugin.colorId] ?? 0) + 1;
+    }
+    return { total, byColor };
+  };
+
+  Matter.Events.on(engine, 'beforeUpdate', applyTickAdjustments);
+  Matter.Events.on(engine, 'collisionStart', handleCollisions);
+
+  const isBesideBins = (ball: Matter.Body) =>
+    ball.position.x < layout.binAreaStartX || ball.position.x > layout.binAreaStartX + config.bucketCount * layout.spacingX;
+
+  const isOffBoard = (ball: Matter.Body) =>
+    ball.position.y > dimensions.height + OFF_BOARD_MARGIN
+    || ball.position.x < -OFF_BOARD_MARGIN
+    || ball.position.x > dimensions.width + OFF_BOARD_MARGIN;
+
+  const removeBalls = (gone: Matter.Body[]) => {
+    for (const ball of gone) {
+      removed[ball.plugin.colorId] = (removed[ball.plugin.colorId] ?? 0) + 1;
+      if (tracing?.ball === ball) tracing = null;
+      if (lastEmitted === ball) lastEmitted = null;
+    }
+    Matter.World.remove(engine.world, gone);
+    balls = balls.filter(ball => !gone.includes(ball));
+  };
+
+  const getLost = (): StuckReport => {
+    const byColor: Record<string, number> = { ...removed };
+    let total = Object.values(removed).reduce((acc, n) => acc + n, 0);
+    for (const ball of balls) {
+      if (ball.position.y <= layout.binStartY || !isBesideBins(ball)) continue;
+      total++;
+      byColor[ball.plugin.colorId] = (byColor[ball.plugin.colorId] ?? 0) + 1;
+    }
+    return { total, byColor };
+  };
+
+  const getTally = (): BucketTally => {
+    const { bucketCount } = config;
+    const total = new Array(bucketCount).fill(0);
+    const byColor: Record<string, number[]> = {};
+
+    // Tally balls that have dropped into a bin, using the divider geometry
+    for (const ball of balls) {
+      if (ball.position.y <= layout.binStartY || isBesideBins(ball)) continue;
+      const index = getBucketIndex(ball.position.x, layout, bucketCount);
+      total[index]++;
+
+      const colorId: string = ball.plugin.colorId;
+      if (!byColor[colorId]) byColor[colorId] = new Array(bucketCount).fill(0);
+      byColor[colorId][index]++;
+    }
+    return { total, byColor };
+  };
+
+  rebuild(initialConfig, initialDimensions, initialBallPhysics);
+
+  return {
+    engine,
+    rebuild,
+    spawn,
+    setGateOpen,
+    isGateOpen: () => gateOpen,
+    step: (deltaMs = FIXED_DELTA_MS) => Matter.Engine.update(engine, deltaMs),
+    setTimeScale: (scale: number) => {
+      engine.timing.timeScale = scale;
+    },
+    getConfig: () => config,
+    getLayout: () => layout,
+    getDimensions: () => dimensions,
+    getBalls: () => balls,
+    getStaticBodies: () => staticBodies,
+    getGates: () => [leftGate, rightGate].filter((g): g is Matter.Body => g !== null),
+    drop: (count: number) => {
+      // The open gate already releases everything; credits banked now would fire once it closes
+      if (!gateOpen) dropCredits += count;
+    },
+    setDropInterval: (ms: number) => {
+      config = { ...config, dropSpeedMs: ms };
+    },
+    getActiveCount: () => balls.reduce((acc, b) => acc + (b.isSleeping ? 0 : 1), 0),
+    getQueuedCount: () => hopper.length - hopperHead,
+    isComplete: () => settledSince !== null && engine.timing.timestamp - settledSince >= COMPLETION_DEBOUNCE_MS,
+    getStuck,
+    getLost,
+    getTally,
+    traceBall,
+    traceRandomBall,
+    getTrace: () => tracing?.trace ?? null,
+    getElapsedMs: () => engine.timing.timestamp,
+    destroy: () => {
+      Matter.Events.off(engine, 'beforeUpdate', applyTickAdjustments);
+      Matter.Events.off(engine, 'collisionStart', handleCollisions);
+      Matter.World.clear(engine.world, false);
+      Matter.Engine.clear(engine);
+    }
+  };
+};
@@ -0,0 +1,131 @@
+import { SimulationConfig, PegPosition } from '../types';
+
+export interface BoardDimensions {
+  width: number;
+  height: number;
+}
+
+// The config fields the layout and generated pegs depend on
+export type LayoutConfig = Pick<SimulationConfig, 'rowCount' | 'bucketCount' | 'pegArrangement' | 'pegSize' | 'ballSize' | 'rowOffset' | 'pegLayout'>;
+
+export interface LayoutMetrics {
+  funnelSlopeHeight: number;
+  funnelNeckHeight: number;
+  funnelExitY: number;
+  pegStartY: number;
+  binStartY: number;
+  binHeight: number;
+  binAreaStartX: number;
+  spacingX: number;
+  spacingY: number;
+}
+
+// Helper to calculate consistent layout metrics
+export const getLayoutMetrics = (width: number, height: number, cfg: LayoutConfig): LayoutMetrics => {
+  const { rowCount, bucketCount } = cfg;
+  const topMargin = 10;
+
+  const funnelSlopeHeight = Math.max(70, height * 0.15);
+  const funnelNeckHeight = 40; // EXTENDED: Vertical channel to straighten balls for normal distribution
+  const funnelExitY = funnelSlopeHeight + funnelNeckHeight;
+
+  const gap = 30; // Gap between funnel exit and first peg
+
+  // NEW LOGIC: Always fill the full width of the container
+  // Triangle: rowCount + 1 bins under the apex, with spacing capped so small boards don't get huge gaps
+  const spacingX = cfg.pegArrangement === 'triangle'
+      ? Math.min(width / (rowCount + 3), (cfg.pegSize + cfg.ballSize) * 8)
+      : width / bucketCount;
+
+  // Ideal vertical spacing based on ratio (0.75 for better clearance)
+  const idealSpacingY = spacingX * 0.75;
+
+  // Calculate available vertical space for the peg block
+  const minViableBinHeight = Math.max(150, height * 0.3);
+  const availableHeightForPegs = height - funnelExitY - topMargin - gap - minViableBinHeight;
+
+  let spacingY = idealSpacingY;
+  const requiredHeight = (rowCount - 1) * spacingY;
+
+  // If the ideal layout doesn't fit vertically, squash the vertical spacing
+  if (requiredHeight > availableHeightForPegs) {
+      spacingY = Math.max(10, availableHeightForPegs / (rowCount - 1));
+  }
+
+  const finalPegBlockHeight = (rowCount - 1) * spacingY;
+
+  // Use funnelSlopeHeight for where the angle ends, but exit is lower
+  const pegStartY = funnelExitY + gap;
+  const binStartY = pegStartY + finalPegBlockHeight + (spacingY * 0.5);
+  const realBinHeight = Math.max(0, height - binStartY);
+
+  // Bins are centered horizontally, one spacingX wide each (narrower than the board for triangles)
+  const binAreaStartX = (width / 2) - ((bucketCount * spacingX) / 2);
+
+  return {
+      funnelSlopeHeight,
+      funnelNeckHeight,
+      funnelExitY,
+      pegStartY,
+      binStartY,
+      binHeight: realBinHeight,
+      binAreaStartX,
+      spacingX,
+      spacingY
+  };
+};
+
+/** Staggered full-width grid in pixels: bucketCount + 2 pegs per row, odd rows shifted half a column. */
+export const getGridPegPositions = (width: number, layout: LayoutMetrics, cfg: LayoutConfig): PegPosition[] => {
+  const { pegStartY, spacingX, spacingY } = layout;
+  const colsPerRow = cfg.bucketCount + 2;
+  const maxOffset = Math.floor(colsPerRow / 2);
+  const pegs: PegPosition[] = [];
+
+  for (let row = 0; row < cfg.rowCount; row++) {
+    const y = pegStartY + row * spacingY;
+    const isOddRow = row % 2 !== 0;
+    const rowShift = row * cfg.rowOffset * spacingX;
+
+    for (let i = -maxOffset; i <= maxOffset; i++) {
+      let xOffset = i * spacingX + rowShift;
+      if (isOddRow) xOffset += spacingX / 2;
+
+      const x = width / 2 + xOffset;
+      if (x > -20 && x < width + 20) pegs.push({ x, y });
+    }
+  }
+  return pegs;
+};
+
+/** Quincunx in pixels: row k has k + 1 pegs centred under the funnel exit. */
+export const getTrianglePegPositions = (width: number, layout: LayoutMetrics, cfg: LayoutConfig): PegPosition[] => {
+  const { pegStartY, spacingX, spacingY } = layout;
+  const pegs: PegPosition[] = [];
+  for (let row = 0; row < cfg.rowCount; row++) {
+    const rowShift = row * cfg.rowOffset * spacingX;
+    for (let j = 0; j <= row; j++) {
+      pegs.push({ x: width / 2 + (j - row / 2) * spacingX + rowShift, y: pegStartY + row * spacingY });
+    }
+  }
+  return pegs;
+};
+
+/** Peg centres in pixels: the custom layout when the config has one, otherwise the generated arrangement. */
+export const getPegPositions = (dimensions: BoardDimensions, layout: LayoutMetrics, cfg: LayoutConfig): PegPosition[] => {
+  if (cfg.pegLayout) {
+    return cfg.pegLayout.map(p => ({ x: p.x * dimensions.width, y: p.y * dimensions.height }));
+  }
+  return cfg.pegArrangement === 'triangle'
+    ? getTrianglePegPositions(dimensions.width, layout, cfg)
+    : getGridPegPositions(dimensions.width, layout, cfg);
+};
+
+/** Bucket index under a horizontal position, clamped to the outer bins. */
+export const getBucketIndex = (x: number, layout: LayoutMetrics, bucketCount: number) => {
+  const bucket = Math.floor((x - layout.binAreaStartX) / layout.spacingX);
+  return Math.min(bucketCount - 1, Math.max(0, bucket));
+};
+
+// Funnel neck opening: just slightly larger than 1 ball diameter for strict single file
+export const getFunnelGap = (ballSize: number) => Math.max(ballSize * 2.2, 5);
@@ -0,0 +1,78 @@
+import { SimulationConfig, BallColor, BallPhysics, BallTrace, BucketTally, StuckReport } from '../types';
+import { BoardDimensions } from './layout';
+
+// Message protocol between GaltonBoard (main thread) and simulation.worker.ts.
+// Per-frame ball data travels as packed typed arrays whose buffers are transferred.
+
+/** Static body outline, enough for the main thread to draw the board. */
+export interface StaticBodyShape {
+  label: string;
+  x: number;
+  y: number;
+  radius?: number; // Circles (pegs) only
+  vertices: { x: number; y: number }[];
+}
+
+export interface FrameData {
+  count: number;
+  positions: Float32Array; // x0, y0, x1, y1, ...
+  colorIndices: Uint8Array; // Index into `palette` per ball
+  palette: string[]; // CSS color per palette index
+  radii: number[]; // Ball radius per palette index; groups can differ in size
+  gates: Float32Array; // Gate outlines, 4 vertices (8 floats) per gate
+  elapsedMs: number;
+  // Live frames only, not kept in recordings:
+  colorIds?: string[]; // Ball group id per palette index
+  steps?: number; // Engine steps since the previous frame
+}
+
+export interface StatsData {
+  activeCount: number;
+  totalBalls: number;
+  stepsPerSecond: number;
+  elapsedMs: number;
+  tally: BucketTally;
+  complete: boolean; // Every ball has come to rest (debounced); see GaltonSimulation.isComplete
+  stuck: StuckReport;
+  lost: StuckReport; // See GaltonSimulation.getLost
+}
+
+export type WorkerCommand =
+  | { type: 'rebuild'; config: SimulationConfig; dimensions: BoardDimensions; gateOpen: boolean; ballPhysics: Record<string, BallPhysics> }
+  | { type: 'spawn'; palette: BallColor[]; colorIndices: Uint8Array }
+  | { type: 'setGate'; open: boolean }
+  | { type: 'drop'; count: number } // Metered release: let the next `count` balls through
+  | { type: 'setDropInterval'; ms: number }
+  | { type: 'setPaused'; paused: boolean } // Freezes the engine, not just the drawing
+  | { type: 'step' } // One fixed tick, used while paused
+  | { type: 'setTimeScale'; scale: number }
+  | { type: 'traceAt'; x: number; y: number } // Follow the ball nearest to a board point
+  | { type: 'traceRandom' } // Follow a ball that hasn't reached the pegs yet
+  | { type: 'clearTrace' };
+
+export type WorkerEvent =
+  | { type: 'board'; staticBodies: StaticBodyShape[] }
+  | { type: 'frame'; frame: FrameData }
+  | { type: 'stats'; stats: StatsData }
+  | { type: 'trace'; trace: BallTrace | null }; // Sent with every frame while a ball is followed
+
+/** Packs a ball queue as a small palette plus one byte per ball, so large queues transfer cheaply. */
+export const packQueue = (queue: BallColor[]) => {
+  const palette: BallColor[] = [];
+  const indexById = new Map<string, number>();
+  const colorIndices = new Uint8Array(queue.length);
+
+  queue.forEach((color, i) => {
+    let index = indexById.get(color.id);
+    if (index === undefined) {
+      index = palette.length;
+      palette.push(color);
+      indexById.set(color.id, index);
+    }
+    colorIndices[i] = index;
+  });
+  return { palette, colorIndices };
+};
+
+export const unpackQueue = (palette: BallColor[], colorIndices: Uint8Array): BallColor[] =>
+  Array.from(colorIndices, index => palette[index]);
@@ -0,0 +1,72 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_CONFIG } from '../types';
+import { FrameData } from './protocol';
+import { appendFrame, createRecording, decodeRecording, encodeRecordingBinary, encodeRecordingJson, frameAt, Recording } from './recording';
+
+const staticBodies = [
+  { label: 'peg', x: 100, y: 50, radius: 7, vertices: [] },
+  { label: 'wall', x: -50, y: 300, vertices: [{ x: -100, y: 0 }, { x: 0, y: 0 }, { x: 0, y: 600 }, { x: -100, y: 600 }] },
+];
+
+// A live frame as the worker sends it, with two balls per palette entry
+const liveFrame = (elapsedMs: number, palette: string[], radii: number[]): FrameData => ({
+  count: palette.length * 2,
+  positions: Float32Array.from({ length: palette.length * 4 }, (_, i) => elapsedMs / 10 + i * 1.25),
+  colorIndices: Uint8Array.from({ length: palette.length * 2 }, (_, i) => i % palette.length),
+  palette,
+  radii,
+  gates: Float32Array.from([0, 0, 10, 0, 10, 2, 0, 2]),
+  elapsedMs,
+  colorIds: palette.map((_, i) => String(i + 1)),
+  steps: 6,
+});
+
+const record = (): Recording => {
+  const recording = createRecording(100, { ...DEFAULT_CONFIG, ballCount: 4 }, { width: 800, height: 500 }, staticBodies);
+  appendFrame(recording, liveFrame(0, ['#3b82f6', '#ef4444'], [2, 3]));
+  appendFrame(recording, liveFrame(50, ['#3b82f6', '#ef4444'], [2, 3]));
+  // Same colors in a new order, plus a size-only difference, are remapped onto the recording's palette
+  appendFrame(recording, liveFrame(100, ['#ef4444', '#3b82f6', '#3b82f6'], [3, 2, 4]));
+  return recording;
+};
+
+const toBuffer = (text: string) => new TextEncoder().encode(text).buffer as ArrayBuffer;
+
+describe('appendFrame', () => {
+  it('samples at the interval and keeps one palette', () => {
+    const recording = record();
+    assert.equal(recording.frames.length, 2);
+    assert.deepEqual(recording.palette, ['#3b82f6', '#ef4444', '#3b82f6']);
+    assert.deepEqual(recording.radii, [2, 3, 4]);
+    assert.deepEqual(Array.from(recording.frames[1].colorIndices), [1, 0, 2, 1, 0, 2]);
+    assert.equal(recording.frames[1].colorIds, undefined);
+    assert.equal(recording.frames[1].steps, undefined);
+    assert.equal(frameAt(recording, 99)?.elapsedMs, 0);
+  });
+});
+
+describe('recording files', () => {
+  it('round-trip through the binary format', () => {
+    const recording = record();
+    assert.deepEqual(decodeRecording(encodeRecordingBinary(recording)), recording);
+  });
+
+  it('round-trip through JSON up to the rounding', () => {
+    const recording = record();
+    const decoded = decodeRecording(toBuffer(encodeRecordingJson(recording)));
+    assert.deepEqual({ ...decoded, frames: [] }, { ...recording, frames: [] });
+    decoded.frames.forEach((frame, f) => {
+      const original = recording.frames[f];
+      assert.equal(frame.elapsedMs, original.elapsedMs);
+      assert.deepEqual(frame.colorIndices, original.colorIndices);
+      frame.positions.forEach((v, i) => assert.ok(Math.abs(v - original.positions[i]) <= 0.005));
+    });
+  });
+
+  it('reject files that are not recordings', () => {
+    assert.throws(() => decodeRecording(toBuffer('{"format":"something-else"}')), /Not a Galton board recording/);
+    const truncated = encodeRecordingBinary(record()).slice(0, -3);
+    assert.throws(() => decodeRecording(truncated), /truncated/);
+  });
+});
@@ -0,0 +1,239 @@
+import { SimulationConfig } from '../types';
+import { BoardDimensions } from './layout';
+import { FrameData, StaticBodyShape } from './protocol';
+
+// Recorded runs: ball positions sampled from worker frames at a fixed interval of
+// simulation time, plus the static board they fell through, so a run can be
+// replayed (and shared) without running the engine.
+
+export const RECORDING_VERSION = 1;
+// Roughly 10 minutes at 100ms; keeps a forgotten recorder from eating memory
+export const MAX_RECORDED_FRAMES = 6000;
+
+const MAGIC = 'GLTR';
+
+export interface Recording {
+  version: number;
+  intervalMs: number;
+  dimensions: BoardDimensions;
+  config: SimulationConfig;
+  palette: string[];
+  radii: number[]; // Ball radius per palette entry
+  staticBodies: StaticBodyShape[];
+  frames: FrameData[]; // Ordered by elapsedMs, all sharing `palette`
+}
+
+export const createRecording = (
+  intervalMs: number,
+  config: SimulationConfig,
+  dimensions: BoardDimensions,
+  staticBodies: StaticBodyShape[]
+): Recording => ({
+  version: RECORDING_VERSION,
+  intervalMs,
+  dimensions,
+  config,
+  palette: [],
+  radii: [],
+  staticBodies,
+  frames: []
+});
+
+/**
+ * Stores a frame if at least `intervalMs` of simulation time passed since the last one.
+ * Color indices are remapped onto the recording's own palette. Returns true when sampled.
+ */
+export const appendFrame = (recording: Recording, frame: FrameData) => {
+  const last = recording.frames[recording.frames.length - 1];
+  if (last && frame.elapsedMs - last.elapsedMs < recording.intervalMs) return false;
+  if (recording.frames.length >= MAX_RECORDED_FRAMES) return false;
+
+  const remap = frame.palette.map((color, i) => {
+    const radius = frame.radii[i];
+    let index = recording.palette.findIndex((c, j) => c === color && recording.radii[j] === radius);
+    if (index === -1) {
+      index = recording.palette.length;
+      recording.palette.push(color);
+      recording.radii.push(radius);
+    }
+    return index;
+  });
+  const identity = remap.every((index, i) => index === i);
+  const colorIndices = identity ? frame.colorIndices : frame.colorIndices.map(i => remap[i]);
+
+  // Group ids and step counts describe the live palette and loop; recordings keep neither
+  recording.frames.push({
+    count: frame.count,
+    positions: frame.positions,
+    colorIndices,
+    palette: recording.palette,
+    radii: recording.radii,
+    gates: frame.gates,
+    elapsedMs: frame.elapsedMs
+  });
+  return true;
+};
+
+export const getDuration = (recording: Recording) =>
+  recording.frames.length > 0 ? recording.frames[recording.frames.length - 1].elapsedMs - recording.frames[0].elapsedMs : 0;
+
+/** Latest frame at or before `timeMs`, measured from the start of the recording. */
+export const frameAt = (recording: Recording, timeMs: number): FrameData | null => {
+  const { frames } = recording;
+  if (frames.length === 0) return null;
+  const target = frames[0].elapsedMs + timeMs;
+
+  // Binary search, frames are ordered by time
+  let lo = 0;
+  let hi = frames.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (frames[mid].elapsedMs <= target) lo = mid;
+    else hi = mid - 1;
+  }
+  return frames[lo];
+};
+
+// --- File formats ---
+
+interface RecordingHeader {
+  version: number;
+  intervalMs: number;
+  dimensions: BoardDimensions;
+  config: SimulationConfig;
+  palette: string[];
+  radii: number[];
+  staticBodies: StaticBodyShape[];
+  frameCount: number;
+}
+
+const headerOf = (recording: Recording): RecordingHeader => ({
+  version: recording.version,
+  intervalMs: recording.intervalMs,
+  dimensions: recording.dimensions,
+  config: recording.config,
+  palette: recording.palette,
+  radii: recording.radii,
+  staticBodies: recording.staticBodies,
+  frameCount: recording.frames.length
+});
+
+/**
+ * Binary layout (little-endian): "GLTR", u32 header length, UTF-8 JSON header, then per frame
+ * f64 elapsedMs, u32 ball count, u32 gate float count, f32 positions, f32 gates, u8 color indices.
+ */
+export const encodeRecordingBinary = (recording: Recording): ArrayBuffer => {
+  const header = new TextEncoder().encode(JSON.stringify(headerOf(recording)));
+  const frameBytes = recording.frames.reduce((sum, f) => sum + 16 + f.count * 9 + f.gates.length * 4, 0);
+  const buffer = new ArrayBuffer(8 + header.length + frameBytes);
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+
+  bytes.set(new TextEncoder().encode(MAGIC), 0);
+  view.setUint32(4, header.length, true);
+  bytes.set(header, 8);
+
+  let offset = 8 + header.length;
+  for (const frame of recording.frames) {
+    view.setFloat64(offset, frame.elapsedMs, true);
+    view.setUint32(offset + 8, frame.count, true);
+    view.setUint32(offset + 12, frame.gates.length, true);
+    offset += 16;
+    for (let i = 0; i < frame.count * 2; i++, offset += 4) view.setFloat32(offset, frame.positions[i], true);
+    for (let i = 0; i < frame.gates.length; i++, offset += 4) view.setFloat32(offset, frame.gates[i], true);
+    bytes.set(frame.colorIndices.subarray(0, frame.count), offset);
+    offset += frame.count;
+  }
+  return buffer;
+};
+
+/** JSON layout: the same header plus frames with positions rounded to 0.01px. */
+export const encodeRecordingJson = (recording: Recording) => {
+  const round = (v: number) => Math.round(v * 100) / 100;
+  const { frameCount, ...header } = headerOf(recording);
+  return JSON.stringify({
+    format: 'galton-recording',
+    ...header,
+    frames: recording.frames.map(f => ({
+      t: f.elapsedMs,
+      positions: Array.from(f.positions.subarray(0, f.count * 2), round),
+      colors: Array.from(f.colorIndices.subarray(0, f.count)),
+      gates: Array.from(f.gates, round)
+    }))
+  });
+};
+
+const checkHeader = (header: Partial<RecordingHeader>) => {
+  if (typeof header.version !== 'number' || header.version > RECORDING_VERSION) {
+    throw new Error(`Unsupported recording version: ${header.version}`);
+  }
+  if (!header.dimensions || !header.config || !Array.isArray(header.palette) || !Array.isArray(header.radii) || !Array.isArray(header.staticBodies)) {
+    throw new Error('Recording header is incomplete');
+  }
+};
+
+const decodeBinary = (buffer: ArrayBuffer): Recording => {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const headerLength = view.getUint32(4, true);
+  const header: RecordingHeader = JSON.parse(new TextDecoder().decode(bytes.subarray(8, 8 + headerLength)));
+  checkHeader(header);
+
+  const { frameCount, ...rest } = header;
+  const recording: Recording = { ...rest, frames: [] };
+  let offset = 8 + headerLength;
+  for (let f = 0; f < frameCount; f++) {
+    if (offset + 16 > buffer.byteLength) throw new Error('Recording file is truncated');
+    const elapsedMs = view.getFloat64(offset, true);
+    const count = view.getUint32(offset + 8, true);
+    const gateCount = view.getUint32(offset + 12, true);
+    offset += 16;
+    if (offset + count * 9 + gateCount * 4 > buffer.byteLength) throw new Error('Recording file is truncated');
+
+    const positions = new Float32Array(count * 2);
+    for (let i = 0; i < positions.length; i++, offset += 4) positions[i] = view.getFloat32(offset, true);
+    const gates = new Float32Array(gateCount);
+    for (let i = 0; i < gateCount; i++, offset += 4) gates[i] = view.getFloat32(offset, true);
+    const colorIndices = bytes.slice(offset, offset + count);
+    offset += count;
+
+    recording.frames.push({ count, positions, colorIndices, gates, palette: recording.palette, radii: recording.radii, elapsedMs });
+  }
+  return recording;
+};
+
+const decodeJson = (text: string): Recording => {
+  const data = JSON.parse(text);
+  if (data?.format !== 'galton-recording' || !Array.isArray(data.frames)) {
+    throw new Error('Not a Galton board recording');
+  }
+  checkHeader(data);
+
+  const palette: string[] = data.palette;
+  const radii: number[] = data.radii;
+  return {
+    version: data.version,
+    intervalMs: data.intervalMs,
+    dimensions: data.dimensions,
+    config: data.config,
+    palette,
+    radii,
+    staticBodies: data.staticBodies,
+    frames: data.frames.map((f: { t: number; positions: number[]; colors: number[]; gates: number[] }) => ({
+      count: f.colors.length,
+      positions: Float32Array.from(f.positions),
+      colorIndices: Uint8Array.from(f.colors),
+      gates: Float32Array.from(f.gates),
+      palette,
+      radii,
+      elapsedMs: f.t
+    }))
+  };
+};
+
+/** Reads a recording file in either format; throws with a readable message if it isn't one. */
+export const decodeRecording = (buffer: ArrayBuffer): Recording => {
+  const bytes = new Uint8Array(buffer);
+  const isBinary = bytes.length >= 8 && new TextDecoder().decode(bytes.subarray(0, 4)) === MAGIC;
+  return isBinary ? decodeBinary(buffer) : decodeJson(new TextDecoder().decode(bytes));
+};
@@ -0,0 +1,283 @@
+import Matter from 'matter-js';
+import { createSimulation, GaltonSimulation, FIXED_DELTA_MS } from './galtonSimulation';
+import { createFastSampler, FastSampler } from './fastSampler';
+import { WorkerCommand, WorkerEvent, StaticBodyShape, unpackQueue } from './protocol';
+
+// Runs the physics engine (or the fast sampler) off the main thread and posts
+// packed ball positions back every frame.
+
+interface WorkerScope {
+  postMessage: (message: WorkerEvent, transfer?: Transferable[]) => void;
+  onmessage: ((event: MessageEvent<WorkerCommand>) => void) | null;
+}
+const scope = self as unknown as WorkerScope;
+
+// Catch up at most this many engine steps per loop before dropping time
+const MAX_STEPS_PER_LOOP = 4;
+const STATS_INTERVAL_MS = 250;
+// A click picks the nearest ball within this distance (px) of the pointer
+const TRACE_PICK_DISTANCE = 12;
+
+let simulation: GaltonSimulation | null = null;
+let fastSampler: FastSampler | null = null;
+
+// Palette of ball group, color and size seen since the last rebuild, indexed in frame buffers
+let palette: string[] = [];
+let radii: number[] = [];
+let colorIds: string[] = [];
+let paletteIndex = new Map<string, number>();
+
+// Time control. Below 1x the engine takes shorter steps (engine.timing.timeScale);
+// above 1x it takes more fixed steps per second, so collisions stay as accurate as at 1x
+let paused = false;
+let timeScale = 1;
+
+// Whether the last frame carried a trace, so clearing it gets sent once
+let tracePosted = false;
+
+// Steps taken since the last posted frame, so per-frame consumers can weigh frames
+let stepsSinceFrame = 0;
+
+let lastLoopTime = performance.now();
+let timeBuffer = 0;
+let stepsSinceStats = 0;
+let lastStatsTime = lastLoopTime;
+
+const getColorIndex = (colorId: string, color: string, radius: number) => {
+  const key = `${colorId}/${color}/${radius}`;
+  let index = paletteIndex.get(key);
+  if (index === undefined) {
+    index = palette.length;
+    palette.push(color);
+    radii.push(radius);
+    colorIds.push(colorId);
+    paletteIndex.set(key, index);
+  }
+  return index;
+};
+
+const toShape = (body: Matter.Body): StaticBodyShape => ({
+  label: body.label,
+  x: body.position.x,
+  y: body.position.y,
+  radius: body.circleRadius || undefined,
+  vertices: body.vertices.map((v: Matter.Vector) => ({ x: v.x, y: v.y }))
+});
+
+// Fast mode keeps its own clock; the engine's timestamp covers physics runs
+const getElapsedMs = () => (fastSampler ? fastSampler.getElapsedMs() : simulation?.getElapsedMs() ?? 0);
+
+const postFrame = () => {
+  if (!simulation) return;
+
+  const balls = simulation.getBalls();
+  const fastBalls = fastSampler?.getInFlight() ?? [];
+  const count = balls.length + fastBalls.length;
+  const positions = new Float32Array(count * 2);
+  const colorIndices = new Uint8Array(count);
+
+  for (let i = 0; i < balls.length; i++) {
+    positions[i * 2] = balls[i].position.x;
+    positions[i * 2 + 1] = balls[i].position.y;
+    colorIndices[i] = getColorIndex(balls[i].plugin.colorId, balls[i].render.fillStyle, balls[i].circleRadius);
+  }
+  for (let i = 0; i < fastBalls.length; i++) {
+    const j = balls.length + i;
+    positions[j * 2] = fastBalls[i].x;
+    positions[j * 2 + 1] = fastBalls[i].y;
+    // Coin flips ignore group physics, so fast-mode balls all share the board's size
+    colorIndices[j] = getColorIndex(fastBalls[i].colorId, fastBalls[i].color, simulation.getConfig().ballSize);
+  }
+
+  const gateBodies = simulation.getGates();
+  const gates = new Float32Array(gateBodies.length * 8);
+  gateBodies.forEach((gate, g) => {
+    gate.vertices.forEach((v: Matter.Vector, k: number) => {
+      gates[g * 8 + k * 2] = v.x;
+      gates[g * 8 + k * 2 + 1] = v.y;
+    });
+  });
+
+  scope.postMessage(
+    {
+      type: 'frame',
+      frame: {
+        count,
+        positions,
+        colorIndices,
+        palette,
+        radii,
+        gates,
+        elapsedMs: getElapsedMs(),
+        colorIds,
+        steps: stepsSinceFrame
+      }
+    },
+    [positions.buffer, colorIndices.buffer, gates.buffer]
+  );
+
+  stepsSinceFrame = 0;
+
+  const trace = simulation.getTrace();
+  if (trace || tracePosted) scope.postMessage({ type: 'trace', trace });
+  tracePosted = trace !== null;
+};
+
+const postStats = (now: number) => {
+  if (!simulation) return;
+  const seconds = (now - lastStatsTime) / 1000;
+
+  // Balls still waiting to be released count as active, in both modes
+  const activeCount = fastSampler
+    ? fastSampler.getInFlight().length + fastSampler.getQueuedCount()
+    : simulation.getActiveCount() + simulation.getQueuedCount();
+  const totalBalls = fastSampler
+    ? fastSampler.getLandedCount() + fastSampler.getInFlight().length + fastSampler.getQueuedCount()
+    : simulation.getBalls().length + simulation.getQueuedCount();
+
+  scope.postMessage({
+    type: 'stats',
+    stats: {
+      activeCount,
+      totalBalls,
+      stepsPerSecond: seconds > 0 ? Math.round(stepsSinceStats / seconds) : 0,
+      elapsedMs: getElapsedMs(),
+      tally: (fastSampler ?? simulation).getTally(),
+      // Coin flips can't get stuck: fast mode is done once everything has landed
+      complete: fastSampler ? totalBalls > 0 && activeCount === 0 : simulation.isComplete(),
+      stuck: fastSampler ? { total: 0, byColor: {} } : simulation.getStuck(),
+      lost: fastSampler ? { total: 0, byColor: {} } : simulation.getLost()
+    }
+  });
+  stepsSinceStats = 0;
+  lastStatsTime = now;
+};
+
+const stepOnce = () => {
+  stepsSinceFrame++;
+  simulation?.step();
+  fastSampler?.step(FIXED_DELTA_MS * Math.min(timeScale, 1));
+};
+
+// Fixed-timestep loop: wall-clock time is accumulated and consumed in FIXED_DELTA_MS steps
+const loop = () => {
+  const now = performance.now();
+  // A paused board banks no time, so resuming doesn't jump ahead
+  timeBuffer = paused ? 0 : timeBuffer + Math.min(now - lastLoopTime, 100) * Math.max(timeScale, 1);
+  lastLoopTime = now;
+
+  if (simulation) {
+    const maxSteps = MAX_STEPS_PER_LOOP * Math.ceil(Math.max(timeScale, 1));
+    let steps = 0;
+    while (timeBuffer >= FIXED_DELTA_MS && steps < maxSteps) {
+      stepOnce();
+      timeBuffer -= FIXED_DELTA_MS;
+      steps++;
+    }
+    if (steps === maxSteps) timeBuffer = 0; // Falling behind: drop the backlog
+    stepsSinceStats += steps;
+
+    if (steps > 0) postFrame();
+    if (now - lastStatsTime >= STATS_INTERVAL_MS) postStats(now);
+  }
+
+  setTimeout(loop, FIXED_DELTA_MS / 2);
+};
+
+scope.onmessage = (event) => {
+  const command = event.data;
+
+  switch (command.type) {
+    case 'rebuild': {
+      if (simulation) {
+        simulation.rebuild(command.config, command.dimensions, command.ballPhysics);
+      } else {
+        simulation = createSimulation(command.config, command.dimensions, command.ballPhysics);
+        simulation.setTimeScale(Math.min(timeScale, 1));
+      }
+      simulation.setGateOpen(command.gateOpen);
+
+      fastSampler = command.config.simulationMode === 'fast'
+        ? createFastSampler(command.config, command.dimensions)
+        : null;
+      fastSampler?.setGateOpen(command.gateOpen);
+
+      palette = [];
+      radii = [];
+      colorIds = [];
+      paletteIndex = new Map();
+
+      scope.postMessage({ type: 'board', staticBodies: simulation.getStaticBodies().map(toShape) });
+      postFrame();
+      postStats(performance.now());
+      break;
+    }
+    case 'spawn': {
+      const queue = unpackQueue(command.palette, command.colorIndices);
+      if (fastSampler) {
+        fastSampler.enqueue(queue);
+      } else {
+        simulation?.spawn(queue);
+      }
+      break;
+    }
+    case 'setGate': {
+      simulation?.setGateOpen(command.open);
+      fastSampler?.setGateOpen(command.open);
+      break;
+    }
+    case 'drop': {
+      simulation?.drop(command.count);
+      break;
+    }
+    case 'setDropInterval': {
+      simulation?.setDropInterval(command.ms);
+      break;
+    }
+    case 'setPaused': {
+      paused = command.paused;
+      break;
+    }
+    case 'step': {
+      if (!simulation) break;
+      stepOnce();
+      stepsSinceStats++;
+      postFrame();
+      postStats(performance.now());
+      break;
+    }
+    case 'setTimeScale': {
+      timeScale = command.scale;
+      simulation?.setTimeScale(Math.min(timeScale, 1));
+      break;
+    }
+    case 'traceAt': {
+      if (!simulation) break;
+      let nearest: Matter.Body | null = null;
+      let nearestDistance = Infinity;
+      for (const ball of simulation.getBalls()) {
+        const distance = Math.hypot(ball.position.x - command.x, ball.position.y - command.y) - ball.circleRadius;
+        if (distance < nearestDistance) {
+          nearest = ball;
+          nearestDistance = distance;
+        }
+      }
+      if (nearest && nearestDistance <= TRACE_PICK_DISTANCE) simulation.traceBall(nearest);
+      postFrame();
+      break;
+    }
+    case 'traceRandom': {
+      // Math.random, not the board's seeded stream: tagging a ball mustn't change the run
+      simulation?.traceRandomBall(Math.random());
+      postFrame();
+      break;
+    }
+    case 'clearTrace': {
+      simulation?.traceBall(null);
+      postFrame();
+      break;
+    }
+  }
+};
+
+loop();
@@ -1,4 +1,29 @@
 
+// 'physics' runs the rigid-body board, 'fast' samples each row's coin flip directly
+export type SimulationMode = 'physics' | 'fast';
+// How fast mode shows balls: along simplified peg-to-peg paths, or not at all
+export type FastAnimation = 'paths' | 'none';
+
+// 'grid' fills the width with a staggered grid, 'triangle' is the textbook quincunx:
+// row k has k + 1 pegs and there are rowCount + 1 bins, one per number of right bounces
+export type PegArrangement = 'grid' | 'triangle';
+
+// 'pile' stacks every ball above the funnel at once, 'metered' emits them one at a
+// time from the neck every dropSpeedMs
+export type ReleaseMode = 'pile' | 'metered';
+
+// Order balls are stacked in the hopper, see simulation/dropOrder.ts
+export type DropOrder = 'sequential' | 'roundRobin' | 'shuffled' | 'weighted';
+
+// 'round' pegs are symmetric; wedges have a sloped top that deflects balls to one side
+export type PegShape = 'round' | 'wedgeLeft' | 'wedgeRight';
+
+// Peg centre as a fraction of the board width and height, so layouts survive resizes
+export interface PegPosition {
+  x: number;
+  y: number;
+}
+
 export interface SimulationConfig {
   rowCount: number;
   ballCount: number;
@@ -7,22 +32,120 @@ export interface SimulationConfig {
   ballSize: number;
   ballRestitution: number;
   ballFriction: number;
-  dropSpeedMs: number;
+  dropSpeedMs: number; // Interval between balls in metered release
+  seed: number; // Drives every random choice so a run can be reproduced
+  simulationMode: SimulationMode;
+  fastAnimation: FastAnimation;
+  pegArrangement: PegArrangement;
+  pegLayout: PegPosition[] | null; // Hand-edited pegs; null = generated from pegArrangement
+  tilt: number; // Board tilt in degrees, tips gravity sideways (positive = right)
+  rowOffset: number; // Extra horizontal shift per peg row, as a fraction of the peg spacing
+  pegShape: PegShape;
+  rightProbability: number; // p of the Binomial(n, p) model: expected curve and fast mode
+  dropOrder: DropOrder; // Interleaved orders keep groups from seeing different pile pressure
+  releaseMode: ReleaseMode;
 }
 
+export const DEFAULT_CONFIG: SimulationConfig = {
+  rowCount: 8,
+  ballCount: 2000,
+  bucketCount: 16,
+  pegSize: 7,
+  ballSize: 2,
+  ballRestitution: 0.5,
+  ballFriction: 0.001,
+  dropSpeedMs: 50,
+  seed: 12345,
+  simulationMode: 'physics',
+  fastAnimation: 'paths',
+  pegArrangement: 'grid',
+  pegLayout: null,
+  tilt: 0,
+  rowOffset: 0,
+  pegShape: 'round',
+  rightProbability: 0.5,
+  dropOrder: 'sequential',
+  releaseMode: 'pile',
+};
+
+// Per-color ball limits: rigid bodies get slow past a few thousand, coin flips don't
+export const MAX_PHYSICS_COUNT = 2000;
+export const MAX_FAST_COUNT = 1000000;
+
 export interface BallColor {
   id: string;
   color: string;
   name: string;
 }
 
+// Per-group physical properties for mixture experiments; unset fields use the board's config
+export interface BallPhysics {
+  size?: number; // Radius, like ballSize
+  density?: number;
+  restitution?: number;
+  friction?: number;
+}
+
+export const DEFAULT_BALL_DENSITY = 0.004;
+
+// Allowed override ranges, shared by the controls and preset validation
+export const BALL_PHYSICS_LIMITS: Record<keyof BallPhysics, { min: number; max: number; step: number }> = {
+  size: { min: 1, max: 10, step: 0.5 },
+  density: { min: 0.001, max: 0.02, step: 0.001 },
+  restitution: { min: 0.1, max: 1, step: 0.05 },
+  friction: { min: 0, max: 0.1, step: 0.001 },
+};
+
 export interface BallDefinition {
   color: BallColor;
   count: number;
+  physics?: BallPhysics;
+}
+
+// Landed balls per bucket, overall and split by BallColor.id
+export interface BucketTally {
+  total: number[];
+  byColor: Record<string, number[]>;
+}
+
+// Balls that stopped making progress outside the bins, e.g. balanced on a divider
+export interface StuckReport {
+  total: number;
+  byColor: Record<string, number>;
+}
+
+// What a finished run looked like, reported once every ball has come to rest
+export interface RunSummary {
+  elapsedMs: number; // Simulated time
+  tally: BucketTally;
+  stuck: StuckReport;
+  lost: StuckReport; // Balls that left the board or came down beside the bins; in neither the tally nor `stuck`
+}
+
+// Side a followed ball passed a peg row on; '?' for rows it had passed before it was followed
+export type PathDecision = 'L' | 'R' | '?';
+
+// A single followed ball: where it went and how it got past each peg row
+export interface BallTrace {
+  colorId: string;
+  radius: number; // The ball's own size, which its group may override
+  trail: number[]; // x0, y0, x1, y1, ... in board pixels
+  decisions: PathDecision[]; // One per peg row passed so far, top row first
+  pegsHit: number; // Distinct pegs it touched
+  bucket: number | null; // Bin it dropped into, null while still above the bins
 }
 
 export type SimulationStatus = 'empty' | 'filled' | 'running' | 'paused' | 'completed';
 
+// Ball groups are packed one byte per ball for the worker, but a dozen is already plenty to tell apart
+export const MAX_BALL_GROUPS = 12;
+
+// Colors offered for new ball groups, picked in order of what is not in use yet
+export const PALETTE_SUGGESTIONS = [
+  '#3b82f6', '#ef4444', '#10b981', '#f59e0b', '#8b5cf6', '#ec4899', // blue, red, green, amber, purple, pink
+  '#06b6d4', '#84cc16', '#f97316', '#64748b', '#14b8a6', '#a16207', // cyan, lime, orange, slate, teal, yellow-700
+];
+
 export const DEFAULT_COLORS: BallColor[] = [
   { id: '1', color: '#3b82f6', name: 'Blue' },   // blue-500
   { id: '2', color: '#ef4444', name: 'Red' },    // red-500
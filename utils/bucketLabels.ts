@@ -0,0 +1,126 @@
+import { SimulationConfig } from '../types';
+import { expectedBucketProbabilities, describeDistribution } from './statistics';
+
+// Bucket label generators, and the numeric value each bucket stands for.
+// A bucket's value is set explicitly by a generator, or read from its label
+// ("62", "60–64", "+1.5σ"); statistics and exports use values in place of bucket indices.
+
+export type LabelMode = 'range' | 'zScore' | 'categories' | 'list';
+
+export interface LabelGeneratorOptions {
+  mode: LabelMode;
+  start: number; // Range: lower edge of the first bucket
+  step: number; // Range: width of every bucket
+  categories: string; // Comma separated, optionally "name=value", spread evenly over the buckets
+  list: string; // Pasted labels, one per line (or comma/tab separated on one line)
+}
+
+export const DEFAULT_LABEL_OPTIONS: LabelGeneratorOptions = {
+  mode: 'range',
+  start: 0,
+  step: 1,
+  categories: 'F=0, D=1, C=2, B=3, A=4',
+  list: '',
+};
+
+export interface BucketLabeling {
+  labels: string[];
+  values: (number | null)[]; // Explicit values; null = read from the label
+}
+
+const decimalsOf = (value: number) => (String(value).split('.')[1] ?? '').length;
+
+// Labels use the typographic minus; parsing accepts both
+const formatSigned = (value: number, decimals: number) => {
+  const text = Math.abs(value).toFixed(decimals);
+  if (Number(text) === 0) return text;
+  return value < 0 ? `−${text}` : `+${text}`;
+};
+
+const NUMBER = '[+-]?\\d+(?:\\.\\d+)?';
+const RANGE_PATTERN = new RegExp(`^(${NUMBER})\\s*(?:[–—-]|\\.\\.|to)\\s*(${NUMBER})`);
+const VALUE_PATTERN = new RegExp(`^(${NUMBER})\\s*[^\\d.]*$`); // A number with an optional unit such as "cm" or "σ"
+
+/** Numeric value a label reads as: a number (with unit), or the midpoint of a range; null otherwise. */
+export const parseLabelValue = (label: string): number | null => {
+  const text = label.trim().replace(/−/g, '-');
+  const range = text.match(RANGE_PATTERN);
+  if (range) return (parseFloat(range[1]) + parseFloat(range[2])) / 2;
+  const value = text.match(VALUE_PATTERN);
+  return value ? parseFloat(value[1]) : null;
+};
+
+// "name=value" entries; without "=value" the value is read from the name, if it is numeric
+const parseEntry = (entry: string) => {
+  const split = entry.lastIndexOf('=');
+  if (split > 0) {
+    const value = parseFloat(entry.slice(split + 1).replace(/−/g, '-'));
+    if (Number.isFinite(value)) return { label: entry.slice(0, split).trim(), value };
+  }
+  return { label: entry.trim(), value: null };
+};
+
+const splitEntries = (text: string, allowCommas: boolean) =>
+  text.split(allowCommas ? /[\n\t,]/ : /[\n\t]/).map(entry => entry.trim()).filter(entry => entry.length > 0);
+
+/**
+ * Labels (and values) for `bucketCount` buckets:
+ * - range: "60–64", "65–69", ... for whole numbers, "1.50–1.55" style otherwise; value = midpoint
+ * - zScore: each bucket centre in standard deviations of the expected distribution
+ * - categories: the listed categories spread evenly from the leftmost bucket to the rightmost
+ * - list: pasted labels in order; buckets beyond the list keep the default numbering
+ */
+export const generateBucketLabels = (options: LabelGeneratorOptions, config: SimulationConfig): BucketLabeling => {
+  const { bucketCount } = config;
+  const indices = Array.from({ length: bucketCount }, (_, i) => i);
+
+  switch (options.mode) {
+    case 'range': {
+      const { start, step } = options;
+      const whole = Number.isInteger(start) && Number.isInteger(step);
+      const decimals = Math.max(decimalsOf(start), decimalsOf(step));
+      return indices.reduce<BucketLabeling>((acc, i) => {
+        const lower = start + i * step;
+        // Whole-number bins are inclusive ("60–64" then "65–69"), others share their edges
+        const upper = whole ? lower + step - 1 : lower + step;
+        const label = whole && step === 1
+          ? `${lower}`
+          : `${lower.toFixed(decimals)}–${upper.toFixed(decimals)}`;
+        acc.labels.push(label);
+        acc.values.push((lower + upper) / 2);
+        return acc;
+      }, { labels: [], values: [] });
+    }
+    case 'zScore': {
+      const expected = describeDistribution(expectedBucketProbabilities(config.rowCount, bucketCount, config.rightProbability, config.rowOffset));
+      const mean = expected ? expected.mean : (bucketCount + 1) / 2;
+      const sd = expected && expected.standardDeviation > 0 ? expected.standardDeviation : 1;
+      const values = indices.map(i => Math.round(((i + 1 - mean) / sd) * 100) / 100);
+      return { labels: values.map(z => `${formatSigned(z, 1)}σ`), values };
+    }
+    case 'categories': {
+      const categories = splitEntries(options.categories, true).map(parseEntry);
+      if (categories.length === 0) return generateBucketLabels({ ...options, mode: 'list', list: '' }, config);
+      const picked = indices.map(i => categories[Math.floor((i * categories.length) / bucketCount)]);
+      return { labels: picked.map(c => c.label), values: picked.map(c => c.value) };
+    }
+    case 'list': {
+      const lines = splitEntries(options.list, false);
+      // A single pasted row is split on commas as well
+      const entries = (lines.length === 1 ? splitEntries(options.list, true) : lines).map(parseEntry);
+      return {
+        labels: indices.map(i => entries[i]?.label ?? `${i + 1}`),
+        values: indices.map(i => entries[i]?.value ?? null)
+      };
+    }
+  }
+};
+
+/**
+ * Value per bucket, explicit or read from the label. Null unless every bucket has one,
+ * in which case statistics fall back to bucket numbers.
+ */
+export const resolveBucketValues = (labels: string[], values: (number | null)[]): number[] | null => {
+  const resolved = labels.map((label, i) => values[i] ?? parseLabelValue(label));
+  return resolved.length > 0 && resolved.every(value => value !== null) ? (resolved as number[]) : null;
+};
@@ -0,0 +1,199 @@
+import { LayoutMetrics } from '../simulation/layout';
+import { HistogramSeries } from '../components/BucketHistogram';
+
+// Composites the board's canvas layers and HTML overlays (labels, histogram,
+// caption) onto one canvas, for PNG snapshots and WebM clips.
+
+// What gets drawn on top of the canvases, chosen by the user
+export interface CaptureOptions {
+  histogram: boolean;
+  caption: boolean;
+}
+
+export interface CaptureScene {
+  width: number; // CSS pixels of the board
+  height: number;
+  background: string;
+  layers: HTMLCanvasElement[]; // Bottom to top, each covering the whole board
+  layout: LayoutMetrics;
+  labels: string[];
+  histogram?: { counts: number[]; series: HistogramSeries[]; expected: number[] };
+  caption?: string;
+}
+
+// Matches the label row under the bins in GaltonBoard
+const LABEL_ROW_HEIGHT = 40;
+const CAPTION_HEIGHT = 28;
+
+/** Snapshots are at least 2x so they stay sharp on slides. */
+export const getCapturePixelRatio = () => Math.max(2, window.devicePixelRatio || 1);
+
+/** Full image size in CSS pixels: the board plus a caption strip when there is one. */
+export const getCaptureSize = (scene: CaptureScene) => ({
+  width: scene.width,
+  height: scene.height + (scene.caption ? CAPTION_HEIGHT : 0)
+});
+
+// Canvas version of BucketHistogram: outlined bars, stacked colors, expected curve
+const drawHistogram = (ctx: CanvasRenderingContext2D, scene: CaptureScene) => {
+  const { layout, histogram } = scene;
+  if (!histogram || histogram.counts.length === 0) return;
+  const top = layout.binStartY;
+  const height = layout.binHeight - LABEL_ROW_HEIGHT;
+  if (height <= 0) return;
+
+  const { counts, series, expected } = histogram;
+  const total = counts.reduce((acc, c) => acc + c, 0);
+  const expectedCounts = expected.map(p => p * total);
+  const maxValue = Math.max(1, ...counts, ...expectedCounts);
+  const scale = Math.max(0, height - 12) / maxValue;
+  const bottom = top + height;
+
+  ctx.font = '9px ui-monospace, monospace';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'alphabetic';
+
+  counts.forEach((count, i) => {
+    const x = layout.binAreaStartX + (i * layout.spacingX) + 2;
+    const barWidth = Math.max(1, layout.spacingX - 4);
+    const barHeight = count * scale;
+
+    if (series.length > 1) {
+      let stackTop = bottom;
+      ctx.globalAlpha = 0.35;
+      series.forEach(s => {
+        const segmentHeight = (s.counts[i] || 0) * scale;
+        stackTop -= segmentHeight;
+        ctx.fillStyle = s.color;
+        ctx.fillRect(x, stackTop, barWidth, segmentHeight);
+      });
+      ctx.globalAlpha = 1;
+    } else {
+      ctx.fillStyle = 'rgba(79, 70, 229, 0.15)';
+      ctx.fillRect(x, bottom - barHeight, barWidth, barHeight);
+    }
+    ctx.strokeStyle = 'rgba(79, 70, 229, 0.6)';
+    ctx.lineWidth = 1;
+    ctx.strokeRect(x, bottom - barHeight, barWidth, barHeight);
+
+    if (count > 0) {
+      ctx.fillStyle = '#334155';
+      ctx.fillText(`${count}`, x + barWidth / 2, bottom - barHeight - 2);
+    }
+  });
+
+  if (total > 0) {
+    ctx.beginPath();
+    expectedCounts.forEach((value, i) => {
+      const x = layout.binAreaStartX + (i * layout.spacingX) + (layout.spacingX / 2);
+      const y = bottom - value * scale;
+      if (i === 0) ctx.moveTo(x, y);
+      else ctx.lineTo(x, y);
+    });
+    ctx.strokeStyle = '#dc2626';
+    ctx.lineWidth = 2;
+    ctx.lineJoin = 'round';
+    ctx.stroke();
+  }
+};
+
+const drawLabels = (ctx: CanvasRenderingContext2D, scene: CaptureScene) => {
+  const { layout, labels, height } = scene;
+  ctx.font = 'bold 12px ui-sans-serif, system-ui, sans-serif';
+  ctx.fillStyle = '#1e293b';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  labels.forEach((label, i) => {
+    const centerX = layout.binAreaStartX + (i * layout.spacingX) + (layout.spacingX / 2);
+    ctx.fillText(label, centerX, height - 14, Math.max(20, layout.spacingX - 4));
+  });
+};
+
+/** Draws the whole scene into `ctx`, which must already be scaled to CSS pixels. */
+export const drawCapture = (ctx: CanvasRenderingContext2D, scene: CaptureScene) => {
+  const size = getCaptureSize(scene);
+  ctx.fillStyle = scene.background;
+  ctx.fillRect(0, 0, size.width, size.height);
+
+  scene.layers.forEach(layer => ctx.drawImage(layer, 0, 0, scene.width, scene.height));
+  drawHistogram(ctx, scene);
+  drawLabels(ctx, scene);
+
+  if (scene.caption) {
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, scene.height, size.width, CAPTION_HEIGHT);
+    ctx.font = '12px ui-monospace, monospace';
+    ctx.fillStyle = '#334155';
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(scene.caption, 10, scene.height + CAPTION_HEIGHT / 2, size.width - 20);
+  }
+};
+
+const createCaptureCanvas = (scene: CaptureScene, pixelRatio: number) => {
+  const size = getCaptureSize(scene);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(size.width * pixelRatio);
+  canvas.height = Math.round(size.height * pixelRatio);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context is not available');
+  ctx.scale(pixelRatio, pixelRatio);
+  return { canvas, ctx };
+};
+
+export const captureToPng = (scene: CaptureScene, pixelRatio = getCapturePixelRatio()): Promise<Blob> => {
+  const { canvas, ctx } = createCaptureCanvas(scene, pixelRatio);
+  drawCapture(ctx, scene);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('PNG encoding failed'))), 'image/png');
+  });
+};
+
+// --- Video ---
+
+const VIDEO_MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+const VIDEO_FPS = 30;
+
+const pickVideoMimeType = () =>
+  typeof MediaRecorder === 'undefined' ? null : VIDEO_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type)) ?? null;
+
+export const isVideoCaptureSupported = () => pickVideoMimeType() !== null;
+
+export interface VideoCapture {
+  stop: () => Promise<Blob>;
+}
+
+/**
+ * Starts recording a WebM clip. Every animation frame `getScene` is composited onto a
+ * capture canvas whose stream feeds a MediaRecorder. The size is fixed by the first scene.
+ */
+export const startVideoCapture = (getScene: () => CaptureScene | null): VideoCapture => {
+  const mimeType = pickVideoMimeType();
+  const first = getScene();
+  if (!mimeType || !first) throw new Error('Video capture is not supported in this browser');
+
+  // 1x device pixels keeps encoding affordable; video is rarely viewed zoomed in
+  const { canvas, ctx } = createCaptureCanvas(first, window.devicePixelRatio || 1);
+  const recorder = new MediaRecorder(canvas.captureStream(VIDEO_FPS), { mimeType });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+
+  let frameId = 0;
+  const loop = () => {
+    const scene = getScene();
+    if (scene) drawCapture(ctx, scene);
+    frameId = requestAnimationFrame(loop);
+  };
+  loop();
+  recorder.start(1000);
+
+  return {
+    stop: () => new Promise(resolve => {
+      cancelAnimationFrame(frameId);
+      recorder.onstop = () => resolve(new Blob(chunks, { type: 'video/webm' }));
+      recorder.stop();
+    })
+  };
+};
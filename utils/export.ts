@@ -0,0 +1,110 @@
+import { SimulationConfig, BallDefinition, BucketTally } from '../types';
+import { describeDistribution } from './statistics';
+
+// Builds CSV/JSON result files: one row per bucket plus a run metadata block.
+
+export interface RunMetadata {
+  exportedAt: string;
+  elapsedSimulatedMs: number;
+  config: SimulationConfig;
+  ballDefinitions: BallDefinition[];
+  // Only when every bucket has a numeric value (see utils/bucketLabels)
+  meanValue?: number;
+  standardDeviationValue?: number;
+}
+
+export interface ExportInput {
+  tally: BucketTally;
+  bucketLabels: string[];
+  config: SimulationConfig;
+  ballDefinitions: BallDefinition[];
+  elapsedMs: number;
+  bucketValues?: number[] | null; // Numeric value per bucket, null when the labels carry none
+}
+
+const buildMetadata = ({ tally, config, ballDefinitions, elapsedMs, bucketValues }: ExportInput): RunMetadata => {
+  const inUnits = bucketValues ? describeDistribution(tally.total, bucketValues) : null;
+  return {
+    exportedAt: new Date().toISOString(),
+    elapsedSimulatedMs: Math.round(elapsedMs),
+    config,
+    ballDefinitions,
+    ...(inUnits ? { meanValue: inUnits.mean, standardDeviationValue: inUnits.standardDeviation } : {})
+  };
+};
+
+// Column name per ball group; groups sharing a name get their id appended so columns stay distinct
+const groupColumns = (ballDefinitions: BallDefinition[]) =>
+  ballDefinitions.map(def => {
+    const shared = ballDefinitions.filter(other => other.color.name === def.color.name).length > 1;
+    return shared ? `${def.color.name} (${def.color.id})` : def.color.name;
+  });
+
+const buildRows = ({ tally, bucketLabels, ballDefinitions, bucketValues }: ExportInput) => {
+  const columns = groupColumns(ballDefinitions);
+  return tally.total.map((total, index) => ({
+    index,
+    label: bucketLabels[index] ?? '',
+    value: bucketValues?.[index] ?? null,
+    total,
+    byColor: Object.fromEntries(
+      ballDefinitions.map((def, i) => [columns[i], tally.byColor[def.color.id]?.[index] ?? 0])
+    )
+  }));
+};
+
+// Quote fields that would otherwise break the row (commas, quotes, newlines)
+const csvField = (value: string | number) => {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (input: ExportInput): string => {
+  const metadata = buildMetadata(input);
+  const { config } = metadata;
+  const colorNames = groupColumns(input.ballDefinitions);
+
+  // Metadata block as "# key,value" lines above the table
+  const metaLines = [
+    ['exported_at', metadata.exportedAt],
+    ['elapsed_simulated_ms', metadata.elapsedSimulatedMs],
+    ...(metadata.meanValue !== undefined ? [
+      ['mean_value', metadata.meanValue],
+      ['standard_deviation_value', metadata.standardDeviationValue]
+    ] : []),
+    // Structured values (e.g. a custom peg layout) go in as JSON
+    ...Object.entries(config).map(([key, value]) => [
+      `config.${key}`,
+      typeof value === 'object' && value !== null ? JSON.stringify(value) : value as string | number
+    ]),
+    ...input.ballDefinitions.map((def, i) => [
+      `balls.${colorNames[i]}`,
+      `${def.count} (${def.color.color})${def.physics ? ` ${JSON.stringify(def.physics)}` : ''}`
+    ])
+  ].map(([key, value]) => `# ${csvField(key)},${csvField(value)}`);
+
+  const header = ['bucket_index', 'label', 'value', 'total', ...colorNames].map(csvField).join(',');
+  const rows = buildRows(input).map(row =>
+    [row.index, row.label, row.value ?? '', row.total, ...colorNames.map(name => row.byColor[name])].map(csvField).join(',')
+  );
+
+  return [...metaLines, header, ...rows].join('\n') + '\n';
+};
+
+export const toJson = (input: ExportInput): string =>
+  JSON.stringify({ metadata: buildMetadata(input), buckets: buildRows(input) }, null, 2);
+
+/** Hands a generated file to the browser as a download. */
+export const downloadFile = (filename: string, content: BlobPart, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoking right away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+/** File name stem such as "galton-2024-05-01T10-30-00". */
+export const timestampedName = (prefix: string) =>
+  `${prefix}-${new Date().toISOString().slice(0, 19).replace(/:/g, '-')}`;
@@ -0,0 +1,91 @@
+import { LayoutMetrics } from '../simulation/layout';
+import { FrameData } from '../simulation/protocol';
+
+// Ball traffic heatmap: every frame's ball positions are counted into a coarse
+// grid over the peg area, drawn as a translucent layer under the balls.
+
+export const HEATMAP_CELL_SIZE = 8; // CSS pixels per grid cell
+
+export interface Heatmap {
+  top: number; // Board y of the first grid row
+  cols: number;
+  rows: number;
+  counts: Float32Array; // Row-major ball-steps per cell
+  max: number;
+}
+
+// Cold to hot: blue, cyan, yellow, red. Shared with the legend in HeatmapPanel
+export const HEATMAP_RAMP: [number, number, number][] = [
+  [37, 99, 235],
+  [6, 182, 212],
+  [250, 204, 21],
+  [220, 38, 38],
+];
+
+/** Empty grid across the board width, from the funnel exit down to the top of the bins. */
+export const createHeatmap = (width: number, layout: LayoutMetrics): Heatmap => {
+  const top = layout.funnelExitY;
+  const cols = Math.max(1, Math.ceil(width / HEATMAP_CELL_SIZE));
+  const rows = Math.max(1, Math.ceil((layout.binStartY - top) / HEATMAP_CELL_SIZE));
+  return { top, cols, rows, counts: new Float32Array(cols * rows), max: 0 };
+};
+
+/**
+ * Counts one frame's balls, weighted by the engine steps it covers so the time scale and
+ * frame rate don't change the picture. `colorId` limits it to that group, null counts them all.
+ */
+export const accumulateFrame = (heatmap: Heatmap, frame: FrameData, colorId: string | null) => {
+  const weight = frame.steps ?? 1;
+  if (weight === 0) return;
+  const included = colorId === null ? null : frame.palette.map((_, i) => frame.colorIds?.[i] === colorId);
+  const { cols, rows, counts, top } = heatmap;
+
+  for (let i = 0; i < frame.count; i++) {
+    if (included && !included[frame.colorIndices[i]]) continue;
+    const col = Math.floor(frame.positions[i * 2] / HEATMAP_CELL_SIZE);
+    const row = Math.floor((frame.positions[i * 2 + 1] - top) / HEATMAP_CELL_SIZE);
+    if (col < 0 || col >= cols || row < 0 || row >= rows) continue;
+
+    const value = (counts[row * cols + col] += weight);
+    if (value > heatmap.max) heatmap.max = value;
+  }
+};
+
+const rampColor = (t: number) => {
+  const scaled = Math.min(1, Math.max(0, t)) * (HEATMAP_RAMP.length - 1);
+  const i = Math.min(HEATMAP_RAMP.length - 2, Math.floor(scaled));
+  const f = scaled - i;
+  return HEATMAP_RAMP[i].map((c, k) => Math.round(c + (HEATMAP_RAMP[i + 1][k] - c) * f));
+};
+
+/**
+ * Draws the grid in CSS pixel space. Log-scaled, so the thin paths of single
+ * balls still show next to cells where balls sat jammed for a long time.
+ */
+export const drawHeatmap = (ctx: CanvasRenderingContext2D, heatmap: Heatmap) => {
+  const { cols, rows, counts, max } = heatmap;
+  if (max === 0) return;
+
+  const image = new ImageData(cols, rows);
+  const logMax = Math.log1p(max);
+  for (let i = 0; i < counts.length; i++) {
+    if (counts[i] === 0) continue;
+    const t = Math.log1p(counts[i]) / logMax;
+    const [r, g, b] = rampColor(t);
+    image.data[i * 4] = r;
+    image.data[i * 4 + 1] = g;
+    image.data[i * 4 + 2] = b;
+    image.data[i * 4 + 3] = Math.round(255 * (0.15 + 0.5 * t));
+  }
+
+  // One pixel per cell, scaled up smoothly onto the board
+  const cells = document.createElement('canvas');
+  cells.width = cols;
+  cells.height = rows;
+  cells.getContext('2d')?.putImageData(image, 0, 0);
+
+  ctx.save();
+  ctx.imageSmoothingEnabled = true;
+  ctx.drawImage(cells, 0, heatmap.top, cols * HEATMAP_CELL_SIZE, rows * HEATMAP_CELL_SIZE);
+  ctx.restore();
+};
@@ -0,0 +1,76 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_COLORS, DEFAULT_CONFIG } from '../types';
+import { BoardPreset, PRESET_VERSION, decodePresetHash, encodePresetHash, parsePreset, presetToJson, validatePreset } from './presets';
+
+const preset: BoardPreset = {
+  name: 'Heights ≥ 160 cm',
+  version: PRESET_VERSION,
+  config: {
+    ...DEFAULT_CONFIG,
+    ballCount: 150,
+    rowCount: 10,
+    bucketCount: 11,
+    pegArrangement: 'triangle',
+    tilt: 1.5,
+    dropOrder: 'weighted',
+    pegLayout: [{ x: 0.5, y: 0.25 }, { x: 0.123456789, y: 0.5 }],
+  },
+  ballDefinitions: [
+    { color: DEFAULT_COLORS[0], count: 100 },
+    { color: DEFAULT_COLORS[1], count: 50, physics: { size: 3, restitution: 0.8 } },
+  ],
+  bucketLabels: ['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H', 'I', 'J', 'Ü'],
+  bucketValues: [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, null],
+};
+
+describe('preset hash', () => {
+  it('round-trips a preset', () => {
+    const result = decodePresetHash(encodePresetHash(preset));
+    assert.ok(result);
+    assert.deepEqual(result.errors, []);
+    // Custom pegs are rounded for the link
+    assert.deepEqual(result.preset, {
+      ...preset,
+      config: { ...preset.config, pegLayout: [{ x: 0.5, y: 0.25 }, { x: 0.1235, y: 0.5 }] },
+    });
+  });
+
+  it('leaves out defaults to keep links short', () => {
+    const plain: BoardPreset = {
+      ...preset,
+      config: { ...DEFAULT_CONFIG, ballCount: 150 },
+      bucketLabels: Array.from({ length: 16 }, (_, i) => `${i + 1}`),
+      bucketValues: new Array(16).fill(null),
+    };
+    const result = decodePresetHash(encodePresetHash(plain));
+    assert.deepEqual(result?.preset, plain);
+    assert.ok(encodePresetHash(plain).length < encodePresetHash(preset).length);
+  });
+
+  it('is null without a preset and reports damaged links', () => {
+    assert.equal(decodePresetHash('#other=1'), null);
+    assert.deepEqual(decodePresetHash('#preset=%%%')?.preset, null);
+  });
+});
+
+describe('validatePreset', () => {
+  it('round-trips a preset file', () => {
+    assert.deepEqual(parsePreset(presetToJson(preset)), { errors: [], preset });
+  });
+
+  it('collects every problem', () => {
+    const result = validatePreset({
+      config: { rowCount: 100, tilt: 'steep', dropOrder: 'random' },
+      ballDefinitions: [{ color: { id: '1', color: 'blue', name: 'Blue' }, count: 10 }],
+    });
+    assert.equal(result.preset, null);
+    assert.equal(result.errors.length, 4);
+  });
+
+  it('reports JSON syntax errors', () => {
+    const result = parsePreset('{ "name": ');
+    assert.equal(result.preset, null);
+    assert.match(result.errors[0], /^Not valid JSON/);
+  });
+});
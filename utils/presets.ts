@@ -0,0 +1,303 @@
+import { SimulationConfig, BallDefinition, BallPhysics, DropOrder, BALL_PHYSICS_LIMITS, DEFAULT_CONFIG, MAX_PHYSICS_COUNT, MAX_FAST_COUNT, MAX_BALL_GROUPS } from '../types';
+
+// Named snapshots of the board setup: config, ball pool and bucket labels.
+// Saved as JSON files or packed into the URL hash (#preset=...) for sharing.
+
+export const PRESET_VERSION = 1;
+const HASH_KEY = 'preset';
+
+export interface BoardPreset {
+  name: string;
+  version: number;
+  config: SimulationConfig;
+  ballDefinitions: BallDefinition[];
+  bucketLabels: string[];
+  bucketValues: (number | null)[]; // Explicit numeric value per bucket; null = read from the label
+}
+
+// Either a usable preset or the list of problems found (preset is then null)
+export interface PresetResult {
+  preset: BoardPreset | null;
+  errors: string[];
+}
+
+// Config keys holding a plain number
+type NumericConfigKey = { [K in keyof SimulationConfig]: SimulationConfig[K] extends number ? K : never }[keyof SimulationConfig];
+
+// Same ranges as the Controls sliders, anything outside them breaks the layout
+const NUMBER_LIMITS: { key: NumericConfigKey; label: string; min: number; max: number; integer?: boolean }[] = [
+  { key: 'rowCount', label: 'Rows', min: 4, max: 24, integer: true },
+  { key: 'bucketCount', label: 'Buckets', min: 4, max: 50, integer: true },
+  { key: 'pegSize', label: 'Peg size', min: 2, max: 10 },
+  { key: 'ballSize', label: 'Ball size', min: 1, max: 10 },
+  { key: 'ballRestitution', label: 'Bounciness', min: 0.1, max: 1 },
+  { key: 'ballFriction', label: 'Friction', min: 0, max: 0.1 },
+  { key: 'dropSpeedMs', label: 'Drop speed', min: 0, max: 10000 },
+  { key: 'seed', label: 'Seed', min: 0, max: 0xffffffff, integer: true },
+  { key: 'tilt', label: 'Tilt', min: -10, max: 10 },
+  { key: 'rowOffset', label: 'Row offset', min: -0.25, max: 0.25 },
+  { key: 'rightProbability', label: 'Model p', min: 0.01, max: 0.99 },
+];
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+const MAX_CUSTOM_PEGS = 2000;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Checks an untrusted preset (from a file or URL) and fills in missing config keys
+ * from DEFAULT_CONFIG. Collects every problem instead of stopping at the first.
+ */
+export const validatePreset = (input: unknown): PresetResult => {
+  const errors: string[] = [];
+  if (!isRecord(input)) return { preset: null, errors: ['Preset must be a JSON object.'] };
+
+  if (typeof input.version === 'number' && input.version > PRESET_VERSION) {
+    errors.push(`Preset version ${input.version} is newer than this app supports (${PRESET_VERSION}).`);
+  }
+
+  const rawConfig = input.config === undefined ? {} : input.config;
+  if (!isRecord(rawConfig)) return { preset: null, errors: [...errors, '"config" must be an object.'] };
+  const config: SimulationConfig = { ...DEFAULT_CONFIG };
+
+  for (const { key, label, min, max, integer } of NUMBER_LIMITS) {
+    const value = rawConfig[key];
+    if (value === undefined) continue;
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      errors.push(`${label} (${key}) must be a number, got ${JSON.stringify(value)}.`);
+    } else if (integer && !Number.isInteger(value)) {
+      errors.push(`${label} (${key}) must be a whole number, got ${value}.`);
+    } else if (value < min || value > max) {
+      errors.push(`${label} (${key}) must be between ${min} and ${max}, got ${value}.`);
+    } else {
+      config[key] = value;
+    }
+  }
+
+  if (rawConfig.simulationMode !== undefined) {
+    if (rawConfig.simulationMode === 'physics' || rawConfig.simulationMode === 'fast') {
+      config.simulationMode = rawConfig.simulationMode;
+    } else {
+      errors.push(`Simulation mode must be "physics" or "fast", got ${JSON.stringify(rawConfig.simulationMode)}.`);
+    }
+  }
+  if (rawConfig.fastAnimation !== undefined) {
+    if (rawConfig.fastAnimation === 'paths' || rawConfig.fastAnimation === 'none') {
+      config.fastAnimation = rawConfig.fastAnimation;
+    } else {
+      errors.push(`Fast animation must be "paths" or "none", got ${JSON.stringify(rawConfig.fastAnimation)}.`);
+    }
+  }
+
+  if (rawConfig.pegArrangement !== undefined) {
+    if (rawConfig.pegArrangement === 'grid' || rawConfig.pegArrangement === 'triangle') {
+      config.pegArrangement = rawConfig.pegArrangement;
+    } else {
+      errors.push(`Peg arrangement must be "grid" or "triangle", got ${JSON.stringify(rawConfig.pegArrangement)}.`);
+    }
+  }
+  if (rawConfig.pegShape !== undefined) {
+    if (rawConfig.pegShape === 'round' || rawConfig.pegShape === 'wedgeLeft' || rawConfig.pegShape === 'wedgeRight') {
+      config.pegShape = rawConfig.pegShape;
+    } else {
+      errors.push(`Peg shape must be "round", "wedgeLeft" or "wedgeRight", got ${JSON.stringify(rawConfig.pegShape)}.`);
+    }
+  }
+  if (rawConfig.releaseMode !== undefined) {
+    if (rawConfig.releaseMode === 'pile' || rawConfig.releaseMode === 'metered') {
+      config.releaseMode = rawConfig.releaseMode;
+    } else {
+      errors.push(`Release mode must be "pile" or "metered", got ${JSON.stringify(rawConfig.releaseMode)}.`);
+    }
+  }
+  if (rawConfig.dropOrder !== undefined) {
+    if (['sequential', 'roundRobin', 'shuffled', 'weighted'].includes(rawConfig.dropOrder as string)) {
+      config.dropOrder = rawConfig.dropOrder as DropOrder;
+    } else {
+      errors.push(`Drop order must be "sequential", "roundRobin", "shuffled" or "weighted", got ${JSON.stringify(rawConfig.dropOrder)}.`);
+    }
+  }
+  if (config.pegArrangement === 'triangle' && config.bucketCount !== config.rowCount + 1) {
+    errors.push(`A triangle board with ${config.rowCount} rows needs ${config.rowCount + 1} buckets, got ${config.bucketCount}.`);
+  }
+
+  // Custom peg layouts are normalized board coordinates
+  if (rawConfig.pegLayout !== undefined && rawConfig.pegLayout !== null) {
+    const pegs = rawConfig.pegLayout;
+    const inRange = (v: unknown) => typeof v === 'number' && v >= 0 && v <= 1;
+    if (!Array.isArray(pegs) || pegs.length > MAX_CUSTOM_PEGS) {
+      errors.push(`Peg layout (pegLayout) must be a list of at most ${MAX_CUSTOM_PEGS} pegs.`);
+    } else {
+      const bad = pegs.findIndex(p => !isRecord(p) || !inRange(p.x) || !inRange(p.y));
+      if (bad !== -1) {
+        errors.push(`Peg ${bad + 1} in pegLayout needs x and y between 0 and 1, got ${JSON.stringify(pegs[bad])}.`);
+      } else {
+        config.pegLayout = pegs.map(p => ({ x: p.x, y: p.y }));
+      }
+    }
+  }
+
+  const maxCount = config.simulationMode === 'fast' ? MAX_FAST_COUNT : MAX_PHYSICS_COUNT;
+  const ballDefinitions: BallDefinition[] = [];
+  if (!Array.isArray(input.ballDefinitions) || input.ballDefinitions.length === 0) {
+    errors.push('"ballDefinitions" must be a non-empty list.');
+  } else if (input.ballDefinitions.length > MAX_BALL_GROUPS) {
+    errors.push(`At most ${MAX_BALL_GROUPS} ball groups are supported, got ${input.ballDefinitions.length}.`);
+  } else {
+    input.ballDefinitions.forEach((def, i) => {
+      const where = `Ball group ${i + 1}`;
+      if (!isRecord(def) || !isRecord(def.color)) {
+        errors.push(`${where} must have a "color" object and a "count".`);
+        return;
+      }
+      const { id, color, name } = def.color;
+      if (typeof id !== 'string' || id === '') errors.push(`${where} needs a color id.`);
+      if (typeof name !== 'string') errors.push(`${where} needs a color name.`);
+      if (typeof color !== 'string' || !HEX_COLOR.test(color)) {
+        errors.push(`${where} color must be a hex code like #3b82f6, got ${JSON.stringify(color)}.`);
+      }
+      const count = def.count;
+      if (typeof count !== 'number' || !Number.isInteger(count) || count < 0 || count > maxCount) {
+        errors.push(`${where} count must be a whole number between 0 and ${maxCount}, got ${JSON.stringify(count)}.`);
+      }
+      // Optional per-group physics, each field within the same range as its control
+      let physics: BallPhysics | undefined;
+      if (def.physics !== undefined) {
+        if (!isRecord(def.physics)) {
+          errors.push(`${where} "physics" must be an object.`);
+        } else {
+          physics = {};
+          for (const [key, value] of Object.entries(def.physics)) {
+            const limits = BALL_PHYSICS_LIMITS[key as keyof BallPhysics];
+            if (!limits) {
+              errors.push(`${where} has an unknown physics setting "${key}".`);
+            } else if (typeof value !== 'number' || !Number.isFinite(value) || value < limits.min || value > limits.max) {
+              errors.push(`${where} ${key} must be between ${limits.min} and ${limits.max}, got ${JSON.stringify(value)}.`);
+            } else {
+              physics[key as keyof BallPhysics] = value;
+            }
+          }
+        }
+      }
+      ballDefinitions.push({
+        color: { id: String(id), color: String(color), name: String(name) },
+        count: Number(count),
+        ...(physics && Object.keys(physics).length > 0 ? { physics } : {})
+      });
+    });
+    const ids = ballDefinitions.map(def => def.color.id);
+    if (new Set(ids).size !== ids.length) errors.push('Ball group color ids must be unique.');
+  }
+
+  // Labels are optional; missing ones fall back to the default numbering
+  let bucketLabels = Array.from({ length: config.bucketCount }, (_, i) => `${i + 1}`);
+  if (input.bucketLabels !== undefined) {
+    const labels = input.bucketLabels;
+    if (!Array.isArray(labels) || labels.some(label => typeof label !== 'string')) {
+      errors.push('"bucketLabels" must be a list of strings.');
+    } else if (labels.length !== config.bucketCount) {
+      errors.push(`Expected ${config.bucketCount} bucket labels (one per bucket), got ${labels.length}.`);
+    } else {
+      bucketLabels = labels as string[];
+    }
+  }
+
+  // Values are optional too; missing ones are read from the labels
+  let bucketValues: (number | null)[] = new Array(config.bucketCount).fill(null);
+  if (input.bucketValues !== undefined) {
+    const values = input.bucketValues;
+    if (!Array.isArray(values) || values.some(value => value !== null && !(typeof value === 'number' && Number.isFinite(value)))) {
+      errors.push('"bucketValues" must be a list of numbers or nulls.');
+    } else if (values.length !== config.bucketCount) {
+      errors.push(`Expected ${config.bucketCount} bucket values (one per bucket), got ${values.length}.`);
+    } else {
+      bucketValues = values as (number | null)[];
+    }
+  }
+
+  if (errors.length > 0) return { preset: null, errors };
+
+  config.ballCount = ballDefinitions.reduce((sum, def) => sum + def.count, 0);
+  return {
+    errors: [],
+    preset: {
+      name: typeof input.name === 'string' && input.name.trim() ? input.name.trim() : 'Untitled',
+      version: PRESET_VERSION,
+      config,
+      ballDefinitions,
+      bucketLabels,
+      bucketValues
+    }
+  };
+};
+
+/** Parses preset file contents, reporting JSON syntax errors the same way as validation errors. */
+export const parsePreset = (text: string): PresetResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    return { preset: null, errors: [`Not valid JSON: ${(e as Error).message}`] };
+  }
+  return validatePreset(data);
+};
+
+export const presetToJson = (preset: BoardPreset) => JSON.stringify(preset, null, 2);
+
+// base64url of the UTF-8 JSON, so labels like "Ü" or "≥ 90" survive the hash
+const toBase64Url = (text: string) => {
+  let binary = '';
+  new TextEncoder().encode(text).forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string) => {
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return new TextDecoder().decode(Uint8Array.from(binary, ch => ch.charCodeAt(0)));
+};
+
+/**
+ * Compact hash form: config keys equal to the defaults and labels equal to the
+ * default numbering are left out, so typical links stay short.
+ */
+export const encodePresetHash = (preset: BoardPreset) => {
+  const config: Partial<SimulationConfig> = {};
+  (Object.keys(preset.config) as (keyof SimulationConfig)[]).forEach(key => {
+    if (key !== 'ballCount' && preset.config[key] !== DEFAULT_CONFIG[key]) {
+      (config as Record<string, unknown>)[key] = preset.config[key];
+    }
+  });
+  // Sub-pixel peg precision isn't worth the link length
+  if (config.pegLayout) {
+    const round = (v: number) => Math.round(v * 10000) / 10000;
+    config.pegLayout = config.pegLayout.map(p => ({ x: round(p.x), y: round(p.y) }));
+  }
+  const defaultLabels = preset.bucketLabels.every((label, i) => label === `${i + 1}`);
+  const hasValues = preset.bucketValues.some(value => value !== null);
+  const compact = {
+    name: preset.name,
+    version: preset.version,
+    config,
+    ballDefinitions: preset.ballDefinitions,
+    ...(defaultLabels ? {} : { bucketLabels: preset.bucketLabels }),
+    ...(hasValues ? { bucketValues: preset.bucketValues } : {})
+  };
+  return `#${HASH_KEY}=${toBase64Url(JSON.stringify(compact))}`;
+};
+
+/** Reads a preset from a location hash; null when the hash carries none. */
+export const decodePresetHash = (hash: string): PresetResult | null => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const encoded = params.get(HASH_KEY);
+  if (!encoded) return null;
+
+  let text: string;
+  try {
+    text = fromBase64Url(encoded);
+  } catch {
+    return { preset: null, errors: ['The preset link is damaged (could not decode it).'] };
+  }
+  return parsePreset(text);
+};
@@ -0,0 +1,21 @@
+// Seeded pseudo-random numbers so runs can be reproduced from a config.
+
+export type RandomSource = () => number;
+
+/**
+ * Mulberry32 generator: fast, 32-bit state, good enough for jitter and nudges.
+ * Returns floats in [0, 1) like Math.random().
+ */
+export const createRandom = (seed: number): RandomSource => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/** Picks a fresh seed for the "randomize" button. */
+export const randomSeed = () => Math.floor(Math.random() * 1_000_000);
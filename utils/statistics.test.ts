@@ -0,0 +1,90 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  binomialPmf,
+  chiSquareGoodnessOfFit,
+  estimateRightProbability,
+  expectedBucketProbabilities,
+  kolmogorovSmirnov
+} from './statistics';
+
+const sum = (values: number[]) => values.reduce((acc, v) => acc + v, 0);
+
+describe('expectedBucketProbabilities', () => {
+  it('sums to one', () => {
+    assert.ok(Math.abs(sum(expectedBucketProbabilities(8, 16, 0.3)) - 1) < 1e-12);
+  });
+
+  it('shifts by whole buckets when the rows add up to a full peg spacing', () => {
+    const centred = expectedBucketProbabilities(8, 16);
+    const shifted = expectedBucketProbabilities(8, 16, 0.5, 1 / 7);
+    shifted.slice(1).forEach((p, i) => assert.ok(Math.abs(p - centred[i]) < 1e-12));
+  });
+});
+
+describe('chiSquareGoodnessOfFit', () => {
+  it('matches a hand-computed two-bucket test', () => {
+    const result = chiSquareGoodnessOfFit([60, 40], [0.5, 0.5]);
+    assert.ok(result);
+    assert.equal(result.statistic, 4);
+    assert.equal(result.degreesOfFreedom, 1);
+    assert.ok(Math.abs(result.pValue - 0.0455) < 1e-4);
+  });
+
+  it('pools the tails until every group expects at least five balls', () => {
+    const probabilities = expectedBucketProbabilities(8, 16);
+    const observed = probabilities.map(p => Math.round(p * 200));
+    const result = chiSquareGoodnessOfFit(observed, probabilities);
+    assert.ok(result);
+    assert.equal(result.lowExpectedShare, 0);
+    // 16 buckets, of which only the middle ones expect five or more on their own
+    assert.ok(result.degreesOfFreedom < 15);
+    assert.ok(result.pValue > 0.99);
+  });
+
+  it('pools both tails alike', () => {
+    const probabilities = expectedBucketProbabilities(8, 16);
+    const observed = [0, 0, 0, 1, 4, 15, 30, 45, 52, 28, 14, 9, 2, 0, 0, 0];
+    const forward = chiSquareGoodnessOfFit(observed, probabilities);
+    const mirrored = chiSquareGoodnessOfFit([...observed].reverse(), probabilities);
+    assert.ok(forward && mirrored);
+    assert.equal(forward.degreesOfFreedom, mirrored.degreesOfFreedom);
+    assert.ok(Math.abs(forward.statistic - mirrored.statistic) < 1e-9);
+  });
+
+  it('needs balls and at least two groups', () => {
+    assert.equal(chiSquareGoodnessOfFit([0, 0, 0], [0.25, 0.5, 0.25]), null);
+    assert.equal(chiSquareGoodnessOfFit([1, 2, 1], [0.25, 0.5, 0.25]), null);
+  });
+});
+
+describe('kolmogorovSmirnov', () => {
+  it('finds no distance when the counts follow the model', () => {
+    const result = kolmogorovSmirnov([25, 50, 25], [0.25, 0.5, 0.25]);
+    assert.ok(result);
+    assert.equal(result.statistic, 0);
+    assert.equal(result.pValue, 1);
+  });
+
+  it('measures the largest CDF gap', () => {
+    const result = kolmogorovSmirnov([100, 0, 0, 0], [0.25, 0.25, 0.25, 0.25]);
+    assert.ok(result);
+    assert.equal(result.statistic, 0.75);
+    assert.ok(result.pValue < 0.001);
+  });
+});
+
+describe('estimateRightProbability', () => {
+  it('recovers p from binomial counts on a triangle board', () => {
+    // 8 rows and 9 bins: bin i is exactly i right bounces
+    const counts = Array.from({ length: 9 }, (_, k) => Math.round(binomialPmf(8, k, 0.3) * 100000));
+    const estimate = estimateRightProbability(counts, 8);
+    assert.ok(estimate);
+    assert.ok(Math.abs(estimate.p - 0.3) < 1e-3);
+    assert.ok(estimate.standardError > 0 && estimate.standardError < 0.01);
+  });
+
+  it('needs at least two balls', () => {
+    assert.equal(estimateRightProbability([0, 1, 0], 2), null);
+  });
+});
@@ -0,0 +1,387 @@
+// Pure statistics helpers shared by the board overlay and the sidebar panels.
+
+/**
+ * Probability of exactly `k` successes in `n` independent trials.
+ * Computed iteratively so it stays finite for the row counts we support.
+ */
+export const binomialPmf = (n: number, k: number, p = 0.5): number => {
+  if (k < 0 || k > n) return 0;
+  let coefficient = 1;
+  for (let i = 1; i <= k; i++) {
+    coefficient = (coefficient * (n - k + i)) / i;
+  }
+  return coefficient * Math.pow(p, k) * Math.pow(1 - p, n - k);
+};
+
+/**
+ * Maps a horizontal offset from the board centre (in units of peg spacing) onto
+ * bucket weights. Offsets landing exactly on a divider are split between the
+ * two neighbouring bins, offsets outside the bin area fall into the edge bins.
+ */
+const addOffsetToBuckets = (weights: number[], offset: number, mass: number) => {
+  const bucketCount = weights.length;
+  const position = offset + bucketCount / 2;
+  const clampIndex = (i: number) => Math.min(bucketCount - 1, Math.max(0, i));
+
+  if (Number.isInteger(position)) {
+    weights[clampIndex(position - 1)] += mass / 2;
+    weights[clampIndex(position)] += mass / 2;
+  } else {
+    weights[clampIndex(Math.floor(position))] += mass;
+  }
+};
+
+// Spacings from the centre a ball lands at after `rights` bounces; offset rows shift
+// every row below the first, so the last of `rowCount` rows sits (rowCount - 1) * rowOffset over
+const landingOffset = (rights: number, rowCount: number, rowOffset: number) =>
+  rights - rowCount / 2 + (rowCount - 1) * rowOffset;
+
+/**
+ * Expected share of balls per bucket for a board with `rowCount` peg rows.
+ * After `k` rightward bounces out of `rowCount`, a ball sits `k - rowCount / 2`
+ * peg spacings from the centre, plus the last peg row's `rowOffset` shift,
+ * which is then mapped onto the bin dividers (as in the fast sampler).
+ */
+export const expectedBucketProbabilities = (rowCount: number, bucketCount: number, p = 0.5, rowOffset = 0): number[] => {
+  const weights = new Array(bucketCount).fill(0);
+  for (let k = 0; k <= rowCount; k++) {
+    addOffsetToBuckets(weights, landingOffset(k, rowCount, rowOffset), binomialPmf(rowCount, k, p));
+  }
+  return weights;
+};
+
+/**
+ * Bucket(s) a ball ends up in after `rights` rightward bounces out of `rowCount`:
+ * one bucket, or the two either side of a divider the offset lands on.
+ */
+export const bucketsForBounces = (rights: number, rowCount: number, bucketCount: number, rowOffset = 0): number[] => {
+  const weights = new Array(bucketCount).fill(0);
+  addOffsetToBuckets(weights, landingOffset(rights, rowCount, rowOffset), 1);
+  return weights.flatMap((w, i) => (w > 0 ? [i] : []));
+};
+
+export interface RightProbabilityEstimate {
+  p: number;
+  standardError: number;
+  count: number;
+}
+
+/**
+ * Effective right-bounce probability from landed counts. Bucket i's centre is
+ * i + 0.5 - bucketCount / 2 spacings from the middle, i.e. k = offset + rowCount / 2
+ * right bounces, and E[k] = rowCount * p. Tilt, offsets and wedges all show up here.
+ */
+export const estimateRightProbability = (counts: number[], rowCount: number): RightProbabilityEstimate | null => {
+  const count = counts.reduce((acc, c) => acc + c, 0);
+  if (count < 2 || rowCount <= 0) return null;
+
+  const bounces = counts.map((_, i) => i + 0.5 - counts.length / 2 + rowCount / 2);
+  const mean = counts.reduce((acc, c, i) => acc + c * bounces[i], 0) / count;
+  const variance = counts.reduce((acc, c, i) => acc + c * (bounces[i] - mean) ** 2, 0) / (count - 1);
+
+  return {
+    p: Math.min(1, Math.max(0, mean / rowCount)),
+    standardError: Math.sqrt(variance / count) / rowCount,
+    count
+  };
+};
+
+/** Natural log of the gamma function (Lanczos approximation, g = 7). */
+const logGamma = (x: number): number => {
+  const c = [
+    0.99999999999980993, 676.5203681218851, -1259.1392167224028,
+    771.32342877765313, -176.61502916214059, 12.507343278686905,
+    -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7
+  ];
+  if (x < 0.5) {
+    // Reflection formula keeps the approximation accurate for small x
+    return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+  }
+  const z = x - 1;
+  let sum = c[0];
+  for (let i = 1; i < c.length; i++) sum += c[i] / (z + i);
+  const t = z + 7.5;
+  return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(sum);
+};
+
+/** Upper regularized incomplete gamma function Q(a, x). */
+const upperRegularizedGamma = (a: number, x: number): number => {
+  if (x <= 0) return 1;
+  const logPrefix = -x + a * Math.log(x) - logGamma(a);
+
+  if (x < a + 1) {
+    // Series expansion of P(a, x), then take the complement
+    let term = 1 / a;
+    let sum = term;
+    for (let n = 1; n < 500; n++) {
+      term *= x / (a + n);
+      sum += term;
+      if (Math.abs(term) < Math.abs(sum) * 1e-14) break;
+    }
+    return Math.max(0, 1 - sum * Math.exp(logPrefix));
+  }
+
+  // Continued fraction for Q(a, x) (modified Lentz)
+  const tiny = 1e-300;
+  let b = x + 1 - a;
+  let c = 1 / tiny;
+  let d = 1 / b;
+  let h = d;
+  for (let i = 1; i < 500; i++) {
+    const an = -i * (i - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = b + an / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-14) break;
+  }
+  return Math.min(1, Math.exp(logPrefix) * h);
+};
+
+/** Probability of a chi-square statistic at least this large under the null hypothesis. */
+export const chiSquarePValue = (statistic: number, degreesOfFreedom: number): number => {
+  if (degreesOfFreedom <= 0) return 1;
+  return upperRegularizedGamma(degreesOfFreedom / 2, statistic / 2);
+};
+
+/** Compact p-value text for the sidebar panels. */
+export const formatPValue = (p: number) => (p < 0.001 ? '< 0.001' : p.toFixed(3));
+
+export interface ChiSquareResult {
+  statistic: number;
+  degreesOfFreedom: number;
+  pValue: number;
+  // Share of cells whose expected count is below 5, where the approximation gets shaky
+  lowExpectedShare: number;
+}
+
+/**
+ * Pearson chi-square test of independence on a contingency table
+ * (rows = groups, columns = buckets). Empty rows and columns are dropped
+ * so unused colors or unreachable edge bins do not inflate the degrees of freedom.
+ */
+export const chiSquareIndependence = (table: number[][]): ChiSquareResult | null => {
+  const rows = table.filter(row => row.some(v => v > 0));
+  if (rows.length < 2) return null;
+
+  const columnCount = rows[0].length;
+  const usedColumns: number[] = [];
+  for (let j = 0; j < columnCount; j++) {
+    if (rows.some(row => row[j] > 0)) usedColumns.push(j);
+  }
+  if (usedColumns.length < 2) return null;
+
+  const rowTotals = rows.map(row => usedColumns.reduce((acc, j) => acc + row[j], 0));
+  const columnTotals = usedColumns.map(j => rows.reduce((acc, row) => acc + row[j], 0));
+  const grandTotal = rowTotals.reduce((acc, v) => acc + v, 0);
+
+  let statistic = 0;
+  let lowCells = 0;
+  rows.forEach((row, i) => {
+    usedColumns.forEach((j, k) => {
+      const expected = (rowTotals[i] * columnTotals[k]) / grandTotal;
+      if (expected < 5) lowCells++;
+      statistic += ((row[j] - expected) ** 2) / expected;
+    });
+  });
+
+  const degreesOfFreedom = (rows.length - 1) * (usedColumns.length - 1);
+  return {
+    statistic,
+    degreesOfFreedom,
+    pValue: chiSquarePValue(statistic, degreesOfFreedom),
+    lowExpectedShare: lowCells / (rows.length * usedColumns.length)
+  };
+};
+
+export interface DistributionSummary {
+  count: number;
+  mean: number;
+  variance: number;
+  standardDeviation: number;
+  skewness: number;
+  excessKurtosis: number;
+}
+
+/**
+ * Moments of a bucket distribution given as weights per bucket (counts or probabilities).
+ * Bucket `i` takes the value `values[i]` (e.g. the midpoint of its label's range) or,
+ * without values, `i + 1` so results line up with the default "1..N" labels.
+ */
+export const describeDistribution = (weights: number[], values?: number[] | null): DistributionSummary | null => {
+  const count = weights.reduce((acc, w) => acc + w, 0);
+  if (count <= 0) return null;
+
+  const valueOf = (i: number) => values?.[i] ?? i + 1;
+  const mean = weights.reduce((acc, w, i) => acc + w * valueOf(i), 0) / count;
+  let m2 = 0;
+  let m3 = 0;
+  let m4 = 0;
+  weights.forEach((w, i) => {
+    const d = valueOf(i) - mean;
+    m2 += w * d * d;
+    m3 += w * d * d * d;
+    m4 += w * d * d * d * d;
+  });
+  m2 /= count;
+  m3 /= count;
+  m4 /= count;
+
+  const standardDeviation = Math.sqrt(m2);
+  return {
+    count,
+    mean,
+    variance: m2,
+    standardDeviation,
+    skewness: m2 > 0 ? m3 / Math.pow(m2, 1.5) : 0,
+    excessKurtosis: m2 > 0 ? m4 / (m2 * m2) - 3 : 0
+  };
+};
+
+/**
+ * Pearson chi-square goodness-of-fit of observed counts against expected probabilities.
+ * Adjacent buckets are pooled from both tails inward until every group expects
+ * at least 5 balls, which also absorbs bins the theory says are unreachable.
+ */
+export const chiSquareGoodnessOfFit = (observed: number[], probabilities: number[]): ChiSquareResult | null => {
+  const total = observed.reduce((acc, v) => acc + v, 0);
+  if (total === 0) return null;
+
+  type Group = { observed: number; expected: number };
+  const add = (group: Group, i: number) => {
+    group.observed += observed[i];
+    group.expected += (probabilities[i] || 0) * total;
+  };
+
+  // Grow whichever tail group expects less, so both tails get pooled alike
+  const left: Group[] = [];
+  const right: Group[] = [];
+  let leftPending: Group = { observed: 0, expected: 0 };
+  let rightPending: Group = { observed: 0, expected: 0 };
+  let lo = 0;
+  let hi = observed.length - 1;
+  while (lo <= hi) {
+    if (leftPending.expected <= rightPending.expected) {
+      add(leftPending, lo++);
+      if (leftPending.expected >= 5) {
+        left.push(leftPending);
+        leftPending = { observed: 0, expected: 0 };
+      }
+    } else {
+      add(rightPending, hi--);
+      if (rightPending.expected >= 5) {
+        right.unshift(rightPending);
+        rightPending = { observed: 0, expected: 0 };
+      }
+    }
+  }
+
+  // The two unfinished groups meet in the middle; too small together, they join a neighbour
+  const middle = { observed: leftPending.observed + rightPending.observed, expected: leftPending.expected + rightPending.expected };
+  const groups = [...left, ...right];
+  if (middle.observed > 0 || middle.expected > 0) {
+    if (middle.expected >= 5 || groups.length === 0) {
+      groups.splice(left.length, 0, middle);
+    } else {
+      const neighbour = left.length > 0 ? groups[left.length - 1] : groups[0];
+      neighbour.observed += middle.observed;
+      neighbour.expected += middle.expected;
+    }
+  }
+  if (groups.length < 2) return null;
+
+  const statistic = groups.reduce((acc, g) => acc + ((g.observed - g.expected) ** 2) / g.expected, 0);
+  const degreesOfFreedom = groups.length - 1;
+  return {
+    statistic,
+    degreesOfFreedom,
+    pValue: chiSquarePValue(statistic, degreesOfFreedom),
+    lowExpectedShare: groups.filter(g => g.expected < 5).length / groups.length
+  };
+};
+
+export interface KolmogorovSmirnovResult {
+  statistic: number;
+  pValue: number;
+}
+
+/** Asymptotic Kolmogorov distribution tail, P(K > x). */
+const kolmogorovTail = (x: number): number => {
+  if (x < 0.2) return 1;
+  let sum = 0;
+  for (let k = 1; k <= 100; k++) {
+    const term = Math.exp(-2 * k * k * x * x);
+    sum += (k % 2 === 1 ? 1 : -1) * term;
+    if (term < 1e-12) break;
+  }
+  return Math.min(1, Math.max(0, 2 * sum));
+};
+
+/**
+ * One-sample Kolmogorov–Smirnov test comparing the empirical bucket CDF with the
+ * expected one. For discrete data the p-value is conservative (too large).
+ */
+export const kolmogorovSmirnov = (observed: number[], probabilities: number[]): KolmogorovSmirnovResult | null => {
+  const total = observed.reduce((acc, v) => acc + v, 0);
+  if (total === 0) return null;
+
+  let observedCdf = 0;
+  let expectedCdf = 0;
+  let statistic = 0;
+  observed.forEach((count, i) => {
+    observedCdf += count / total;
+    expectedCdf += probabilities[i] || 0;
+    statistic = Math.max(statistic, Math.abs(observedCdf - expectedCdf));
+  });
+
+  const rootN = Math.sqrt(total);
+  return {
+    statistic,
+    pValue: kolmogorovTail((rootN + 0.12 + 0.11 / rootN) * statistic)
+  };
+};
+
+export interface BucketSpread {
+  mean: number;
+  variance: number; // Sample variance across trials (n - 1)
+  standardDeviation: number;
+  // Band a single trial's count falls in about 95% of the time: mean ± 1.96 sd
+  lower: number;
+  upper: number;
+  // 95% confidence interval of the mean itself: mean ± 1.96 sd / sqrt(trials)
+  meanLower: number;
+  meanUpper: number;
+}
+
+/**
+ * Run-to-run spread of every bucket over repeated trials (one counts array per trial).
+ * Bands use the normal approximation and are clamped at zero; with fewer than two
+ * trials there is no spread to measure and null is returned.
+ */
+export const bucketSpread = (trials: number[][]): BucketSpread[] | null => {
+  if (trials.length < 2) return null;
+  const n = trials.length;
+  const bucketCount = Math.max(...trials.map(t => t.length));
+  const z = 1.96;
+
+  return Array.from({ length: bucketCount }, (_, i) => {
+    const values = trials.map(t => t[i] ?? 0);
+    const mean = values.reduce((acc, v) => acc + v, 0) / n;
+    const variance = values.reduce((acc, v) => acc + (v - mean) * (v - mean), 0) / (n - 1);
+    const standardDeviation = Math.sqrt(variance);
+    const standardError = standardDeviation / Math.sqrt(n);
+    return {
+      mean,
+      variance,
+      standardDeviation,
+      lower: Math.max(0, mean - z * standardDeviation),
+      upper: mean + z * standardDeviation,
+      meanLower: Math.max(0, mean - z * standardError),
+      meanUpper: mean + z * standardError
+    };
+  });
+};